@@ -0,0 +1,66 @@
+import { test, expect, signIn } from './fixtures';
+
+test.describe('Google sign-in', () => {
+  test('exchanges the ?code= callback and returns to the page login started from', async ({ page }) => {
+    await signIn(page, '/career');
+
+    await expect(page).toHaveURL(/\/career\/chat-[^?]+$/);
+    await expect(page.getByRole('heading', { name: 'Career Guru' })).toBeVisible();
+  });
+
+  test('keeps the session across a reload', async ({ page }) => {
+    await signIn(page);
+    await expect(page.getByText('Welcome, Asha Mock!')).toBeVisible();
+
+    await page.reload();
+
+    await expect(page.getByText('Welcome, Asha Mock!')).toBeVisible();
+  });
+
+  test('shows an error when the backend rejects the code', async ({ page, google }) => {
+    google.respondWith({ code: 'invalid-code' });
+    await page.goto('/');
+
+    await page.getByRole('button', { name: 'Start chatting with Priya' }).click();
+
+    await expect(page.getByRole('heading', { name: 'Sign-in failed' })).toBeVisible();
+    await expect(page.getByText('We could not complete sign-in with Google.')).toBeVisible();
+    await expect(page).not.toHaveURL(/code=/);
+  });
+
+  test('refuses a callback whose state does not match', async ({ page, google }) => {
+    google.respondWith({ code: 'e2e-code', state: 'forged' });
+    let exchanged = false;
+    page.on('request', request => {
+      if (request.url().endsWith('/auth/google/code')) exchanged = true;
+    });
+    await page.goto('/');
+
+    await page.getByRole('button', { name: 'Start chatting with Priya' }).click();
+
+    await expect(page.getByText('This sign-in attempt has expired or did not start here.')).toBeVisible();
+    expect(exchanged).toBe(false);
+  });
+
+  test('reports a cancelled consent and lets the user go back', async ({ page, google }) => {
+    google.respondWith({ error: 'access_denied' });
+    await page.goto('/');
+
+    await page.getByRole('button', { name: 'Start chatting with Priya' }).click();
+    await expect(page.getByRole('heading', { name: 'Sign-in cancelled' })).toBeVisible();
+    await page.getByRole('button', { name: 'Back to sign in' }).click();
+
+    await expect(page.getByRole('heading', { name: 'Meet Priya' })).toBeVisible();
+  });
+
+  test('logs out back to the login screen', async ({ page }) => {
+    await signIn(page, '/priya');
+    await expect(page).toHaveURL(/\/priya\/chat-/);
+
+    await page.getByTitle('Logout').click();
+
+    await expect(page.getByRole('heading', { name: 'Meet Priya' })).toBeVisible();
+    await page.reload();
+    await expect(page.getByRole('heading', { name: 'Meet Priya' })).toBeVisible();
+  });
+});
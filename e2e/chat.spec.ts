@@ -0,0 +1,84 @@
+import { test, expect, signIn, openChat, sendMessage } from './fixtures';
+import { E2E_REPLIES } from './config';
+
+const [firstReply, secondReply, thirdReply] = E2E_REPLIES;
+
+test.describe('Chat', () => {
+  test('signs in, chats with Priya and logs out', async ({ page }) => {
+    await signIn(page);
+    await page.getByRole('heading', { name: 'Priya', exact: true }).click();
+    await expect(page).toHaveURL(/\/priya\/chat-/);
+    await expect(page.getByText("Hello! I'm Priya")).toBeVisible();
+    await expect(page.getByText('Online', { exact: true })).toBeVisible();
+
+    await sendMessage(page, 'I had a long day at work');
+
+    await expect(page.getByText('I had a long day at work')).toBeVisible();
+    await expect(page.getByText('Priya is typing')).toBeVisible();
+    await expect(page.getByText('Typing...', { exact: true })).toBeVisible();
+    // The socket delivers each reply after its own typing pause
+    await expect(page.getByText(firstReply)).toBeVisible();
+    await expect(page.getByText(thirdReply)).toBeHidden();
+    await expect(page.getByText(thirdReply)).toBeVisible();
+    await expect(page.getByText('Priya is typing')).toBeHidden();
+    await expect(page.getByText('Online', { exact: true })).toBeVisible();
+
+    await page.getByTitle('Logout').click();
+    await expect(page.getByRole('heading', { name: 'Meet Priya' })).toBeVisible();
+  });
+
+  test('reveals REST replies one by one with typing pauses while the socket is down', async ({ page }) => {
+    // Refuse every socket so messages go over REST and replies are paced by the client
+    await page.routeWebSocket(/\/ws(\?|$)/, ws => ws.close({ code: 1011, reason: 'Unavailable' }));
+    await signIn(page, '/priya');
+    await expect(page).toHaveURL(/\/priya\/chat-/);
+    await expect(page.getByText('Reconnecting...')).toBeVisible();
+
+    await sendMessage(page, 'How are you?');
+
+    await expect(page.getByText('Priya is typing')).toBeVisible();
+    await expect(page.getByText(firstReply)).toBeVisible();
+    await expect(page.getByText(secondReply)).toBeHidden();
+    await expect(page.getByText(secondReply)).toBeVisible();
+    await expect(page.getByText(thirdReply)).toBeHidden();
+    await expect(page.getByText(thirdReply)).toBeVisible();
+    await expect(page.getByText('Priya is typing')).toBeHidden();
+
+    // The replies were stored by the backend, so they survive a reload
+    await page.reload();
+    await expect(page.getByText(thirdReply)).toBeVisible();
+  });
+
+  test('reconnects after the socket drops and keeps chatting over it', async ({ page, mockServer }) => {
+    await signIn(page);
+    await openChat(page);
+
+    mockServer.dropConnections();
+
+    await expect(page.getByText('Reconnecting...')).toBeVisible();
+    await expect(page.getByText('Online', { exact: true })).toBeVisible();
+
+    await sendMessage(page, 'Are you still there?');
+    await expect(page.getByText('Typing...', { exact: true })).toBeVisible();
+    await expect(page.getByText(thirdReply)).toBeVisible();
+  });
+
+  test('opens the debug tools with ?debug=true and goes on to the chat', async ({ page }) => {
+    await signIn(page);
+
+    await page.goto('/?debug=true');
+
+    await expect(page.getByRole('heading', { name: '🔧 Debug Mode' })).toBeVisible();
+    await page.getByRole('button', { name: 'Go to Chat' }).click();
+    await expect(page).toHaveURL(/\/priya\/chat-/);
+    await expect(page.getByRole('heading', { name: '🔧 Debug Mode' })).toBeHidden();
+    await expect(page.getByText('Online', { exact: true })).toBeVisible();
+  });
+
+  test('shows the debug tools only to signed-in users', async ({ page }) => {
+    await page.goto('/?debug=true');
+
+    await expect(page.getByRole('heading', { name: 'Meet Priya' })).toBeVisible();
+    await expect(page.getByRole('heading', { name: '🔧 Debug Mode' })).toBeHidden();
+  });
+});
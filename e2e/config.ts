@@ -0,0 +1,14 @@
+// Ports of the app and the mock backend during E2E runs; both differ from the `npm run dev` and
+// `npm run mock-server` defaults so the specs can run next to a local dev setup
+export const E2E_APP_URL = 'http://localhost:5174';
+export const E2E_MOCK_SERVER_PORT = 3101;
+
+// Pause before each assistant reply on the socket
+export const E2E_REPLY_DELAY = 700;
+
+// Every message gets the same replies, so specs can wait for them by text
+export const E2E_REPLIES = [
+  'Hi Asha!',
+  'That sounds like quite a day.',
+  'Tell me more about it?'
+];
@@ -0,0 +1,79 @@
+import { test as base, expect, Page } from '@playwright/test';
+import { createMockServer, MockServer } from '../server/mockServer';
+import { E2E_MOCK_SERVER_PORT, E2E_REPLIES, E2E_REPLY_DELAY } from './config';
+
+export { expect };
+
+interface GoogleConsent {
+  // Query string Google redirects back with; `state` defaults to the one the app sent
+  respondWith: (params: Record<string, string>) => void;
+}
+
+interface TestFixtures {
+  google: GoogleConsent;
+  resetMockServer: void;
+}
+
+interface WorkerFixtures {
+  mockServer: MockServer;
+}
+
+export const test = base.extend<TestFixtures, WorkerFixtures>({
+  // eslint-disable-next-line no-empty-pattern
+  mockServer: [async ({}, use) => {
+    const server = await createMockServer({
+      port: E2E_MOCK_SERVER_PORT,
+      replyDelay: E2E_REPLY_DELAY,
+      replies: () => E2E_REPLIES
+    });
+    await use(server);
+    await server.close();
+  }, { scope: 'worker' }],
+
+  resetMockServer: [async ({ mockServer }, use) => {
+    mockServer.reset();
+    await use();
+  }, { auto: true }],
+
+  // Stands in for Google's consent screen: the redirect to accounts.google.com is answered with
+  // an immediate redirect back to the app, approving the sign-in unless told otherwise
+  google: [async ({ page }, use) => {
+    let params: Record<string, string> = { code: 'e2e-code' };
+
+    await page.route('https://accounts.google.com/**', route => {
+      const authUrl = new URL(route.request().url());
+      const callback = new URL(authUrl.searchParams.get('redirect_uri')!);
+      callback.search = new URLSearchParams({ state: authUrl.searchParams.get('state')!, ...params }).toString();
+      return route.fulfill({ status: 302, headers: { Location: callback.toString() } });
+    });
+
+    await use({
+      respondWith: next => {
+        params = next;
+      }
+    });
+  }, { auto: true }]
+});
+
+// Sign in through the login screen of `path` and wait for the app to get past it
+export const signIn = async (page: Page, path = '/') => {
+  await page.goto(path);
+  const exchange = page.waitForResponse(response =>
+    response.url().endsWith('/auth/google/code') && response.request().method() === 'POST');
+  await page.getByRole('button', { name: 'Start chatting with Priya' }).click();
+  expect((await exchange).ok()).toBe(true);
+  await expect(page.getByRole('heading', { name: 'Meet Priya' })).toBeHidden();
+  await expect(page.getByText('Loading...')).toBeHidden();
+};
+
+// Open the agent's latest chat, or a new one, and wait for the socket to come up
+export const openChat = async (page: Page, route = '/priya') => {
+  await page.goto(route);
+  await expect(page).toHaveURL(new RegExp(`${route}/chat-`));
+  await expect(page.getByText('Online', { exact: true })).toBeVisible();
+};
+
+export const sendMessage = async (page: Page, content: string) => {
+  await page.getByPlaceholder('Type a message...').fill(content);
+  await page.getByPlaceholder('Type a message...').press('Enter');
+};
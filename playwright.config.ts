@@ -0,0 +1,37 @@
+import { defineConfig, devices } from '@playwright/test';
+import { E2E_APP_URL, E2E_MOCK_SERVER_PORT } from './e2e/config';
+
+// End-to-end specs drive the app in headless Chromium against server/mockServer.ts, which the
+// fixtures in e2e/fixtures.ts start on a fixed port the dev server below is pointed at
+export default defineConfig({
+  testDir: './e2e',
+  fullyParallel: false,
+  // The specs share one mock server and one app origin
+  workers: 1,
+  forbidOnly: !!process.env.CI,
+  retries: process.env.CI ? 1 : 0,
+  reporter: process.env.CI ? 'github' : 'list',
+  use: {
+    baseURL: E2E_APP_URL,
+    trace: 'retain-on-failure',
+    serviceWorkers: 'block'
+  },
+  projects: [
+    { name: 'chromium', use: { ...devices['Desktop Chrome'] } }
+  ],
+  webServer: {
+    command: `npm run dev -- --port ${new URL(E2E_APP_URL).port}`,
+    url: E2E_APP_URL,
+    // A dev server started by hand would point at a different backend
+    reuseExistingServer: false,
+    timeout: 60_000,
+    env: {
+      VITE_BACKEND_MODE: 'http',
+      VITE_API_BASE_URL: `http://localhost:${E2E_MOCK_SERVER_PORT}/api`,
+      VITE_WS_URL: `ws://localhost:${E2E_MOCK_SERVER_PORT}/ws`,
+      VITE_GOOGLE_CLIENT_ID: 'e2e-client-id',
+      VITE_GOOGLE_REDIRECT_URI: `${E2E_APP_URL}/`,
+      VITE_ENABLE_STREAMING: 'false'
+    }
+  }
+});
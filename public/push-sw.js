@@ -0,0 +1,34 @@
+// Web push handlers, imported into the generated service worker (see workbox.importScripts in vite.config.ts)
+
+self.addEventListener('push', (event) => {
+  const payload = event.data ? event.data.json() : {};
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      // A visible tab already shows the reply
+      if (clients.some((client) => client.visibilityState === 'visible')) return;
+
+      return self.registration.showNotification(payload.title || 'Gurukul AI', {
+        body: payload.body,
+        icon: payload.agentId ? `/icons/${payload.agentId}.svg` : '/icons/app-icon.svg',
+        tag: payload.chatId ? `chat-${payload.chatId}` : undefined,
+        data: { url: payload.url || '/' }
+      });
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = (event.notification.data && event.notification.data.url) || '/';
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const client = clients[0];
+      if (client) {
+        return client.focus().then((focused) => focused.navigate(url));
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
@@ -0,0 +1,17 @@
+// Starts the local mock backend: `npm run mock-server` (PORT and REPLY_DELAY are optional)
+import { createMockServer } from './mockServer';
+
+const server = await createMockServer({
+  port: Number(process.env.PORT) || 3001,
+  replyDelay: Number(process.env.REPLY_DELAY ?? 800)
+});
+
+console.log(`Mock backend running
+  VITE_API_BASE_URL=${server.url}
+  VITE_WS_URL=${server.wsUrl}`);
+
+const shutdown = () => {
+  server.close().finally(() => process.exit(0));
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
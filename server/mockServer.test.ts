@@ -0,0 +1,207 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { WebSocket } from 'ws';
+import { createMockServer, INVALID_AUTH_CODE_PREFIX, MockServer } from './mockServer';
+import { createSSEParser, SSEEvent } from '../src/lib/sse';
+import type { Chat, Message, User } from '../src/lib/types';
+
+interface SocketFrame {
+  type: string;
+  data: { message?: Message; messageId?: string; isTyping?: boolean };
+}
+
+let server: MockServer;
+
+const signIn = async () => {
+  const response = await fetch(`${server.url}/auth/google/code`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ code: 'auth-code', codeVerifier: 'verifier', redirectUri: 'http://localhost:8080' })
+  });
+  return response.json() as Promise<{ token: string; refreshToken: string }>;
+};
+
+const api = (token: string) => async <T>(path: string, init: RequestInit = {}) => {
+  const response = await fetch(`${server.url}${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}`, ...init.headers }
+  });
+  const body = await response.json().catch(() => null) as { success: boolean; data: T } | null;
+  return { status: response.status, body: body! };
+};
+
+const readStream = async (response: Response): Promise<SSEEvent[]> => {
+  const events: SSEEvent[] = [];
+  const parser = createSSEParser(event => events.push(event));
+  parser.feed(await response.text());
+  return events;
+};
+
+beforeAll(async () => {
+  server = await createMockServer({ port: 0 });
+});
+
+afterEach(() => {
+  server.reset();
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+describe('mock server REST API', () => {
+  it('requires a token issued by the code exchange', async () => {
+    expect((await api('forged')('/chats')).status).toBe(401);
+
+    const rejected = await fetch(`${server.url}/auth/google/code`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ code: `${INVALID_AUTH_CODE_PREFIX}-code`, codeVerifier: 'verifier' })
+    });
+    expect(rejected.status).toBe(400);
+
+    const { token } = await signIn();
+    const me = await api(token)<User>('/auth/me');
+    expect(me.body.data.id).toBe('mock-user');
+  });
+
+  it('hands out a new access token for a valid refresh token', async () => {
+    const { refreshToken } = await signIn();
+    server.expireAccessTokens();
+
+    const response = await fetch(`${server.url}/auth/refresh`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refreshToken })
+    });
+    const { token } = await response.json() as { token: string };
+    expect((await api(token)('/chats')).status).toBe(200);
+
+    const reused = await fetch(`${server.url}/auth/refresh`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refreshToken })
+    });
+    expect(reused.status).toBe(401);
+  });
+
+  it('stores multi-message replies and serves them to polling', async () => {
+    const request = api((await signIn()).token);
+    const { body: created } = await request<Chat>('/chats', { method: 'POST', body: JSON.stringify({ agentId: 'career' }) });
+    const chatId = created.data.id;
+
+    const { body: reply } = await request<{ messages: Message[]; totalMessages: number }>(`/chats/${chatId}/messages/multi`, {
+      method: 'POST',
+      body: JSON.stringify({ content: 'Should I switch jobs?', agentId: 'career' })
+    });
+    expect(reply.data.messages.length).toBe(reply.data.totalMessages);
+
+    const { body: polled } = await request<Message[]>(`/chats/${chatId}/messages/poll`);
+    expect(polled.data.map(message => message.role))
+      .toEqual(['user', ...reply.data.messages.map(() => 'assistant')]);
+
+    const { body: after } = await request<Message[]>(`/chats/${chatId}/messages/poll?lastMessageId=${polled.data[0].id}`);
+    expect(after.data).toHaveLength(reply.data.totalMessages);
+  });
+
+  it('resumes a stream after the Last-Event-ID without storing the reply twice', async () => {
+    const { token } = await signIn();
+    const request = api(token);
+    const { body: created } = await request<Chat>('/chats', { method: 'POST', body: JSON.stringify({ agentId: 'priya' }) });
+    const chatId = created.data.id;
+    const streamRequest = (headers: Record<string, string> = {}) => fetch(`${server.url}/chats/${chatId}/messages/stream`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}`, ...headers },
+      body: JSON.stringify({ content: 'Hi', agentId: 'priya' })
+    });
+
+    const events = await readStream(await streamRequest());
+    expect(events[0].event).toBe('connected');
+    expect(events[events.length - 1].event).toBe('complete');
+
+    const replayed = await readStream(await streamRequest({ 'Last-Event-ID': events[2].id! }));
+    expect(replayed.map(event => event.id)).toEqual(events.slice(3).map(event => event.id));
+
+    const { body: messages } = await request<{ total: number }>(`/chats/${chatId}/messages`);
+    const replies = events.filter(event => event.event === 'message');
+    expect(messages.data.total).toBe(1 + replies.length);
+  });
+});
+
+describe('mock server socket', () => {
+  const connect = (token: string) => new Promise<{ ws: WebSocket; frames: SocketFrame[] }>(resolve => {
+    const ws = new WebSocket(`${server.wsUrl}?token=${token}`);
+    const frames: SocketFrame[] = [];
+    ws.on('message', raw => frames.push(JSON.parse(raw.toString())));
+    ws.on('open', () => resolve({ ws, frames }));
+  });
+
+  const waitFor = async (check: () => boolean) => {
+    for (let i = 0; i < 100 && !check(); i++) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    expect(check()).toBe(true);
+  };
+
+  it('closes connections with an unknown token as an auth failure', async () => {
+    const ws = new WebSocket(`${server.wsUrl}?token=forged`);
+    const code = await new Promise(resolve => ws.on('close', resolve));
+    expect(code).toBe(1008);
+  });
+
+  it('acknowledges a message with its client id before the assistant replies', async () => {
+    const { token } = await signIn();
+    const { body: created } = await api(token)<Chat>('/chats', { method: 'POST', body: JSON.stringify({ agentId: 'therapist' }) });
+    const { ws, frames } = await connect(token);
+
+    ws.send(JSON.stringify({
+      type: 'message',
+      data: { chatId: created.data.id, content: 'Hello', agentId: 'therapist', messageId: 'temp-1' },
+      timestamp: Date.now()
+    }));
+    await waitFor(() => frames.some(frame => frame.type === 'message' && frame.data.message?.role === 'assistant'));
+
+    expect(frames[0].type).toBe('message');
+    expect(frames[0].data.messageId).toBe('temp-1');
+    expect(frames[0].data.message?.role).toBe('user');
+    expect(frames[1]).toMatchObject({ type: 'typing', data: { isTyping: true } });
+    ws.close();
+  });
+
+  it('acknowledges a resent message again without storing or answering it twice', async () => {
+    const { token } = await signIn();
+    const { body: created } = await api(token)<Chat>('/chats', { method: 'POST', body: JSON.stringify({ agentId: 'therapist' }) });
+    const { ws, frames } = await connect(token);
+    const send = () => ws.send(JSON.stringify({
+      type: 'message',
+      data: { chatId: created.data.id, content: 'Hello', agentId: 'therapist', messageId: 'temp-1' },
+      timestamp: Date.now()
+    }));
+    const acks = () => frames.filter(frame => frame.data.messageId === 'temp-1');
+    const count = (type: string, match: (frame: SocketFrame) => boolean) =>
+      frames.filter(frame => frame.type === type && match(frame)).length;
+    const typingStarts = () => count('typing', frame => frame.data.isTyping === true);
+    const replies = () => count('message', frame => frame.data.message?.role === 'assistant');
+
+    send();
+    await waitFor(() => replies() > 0);
+    send();
+    // A second reply round would start typing right after the ack, so wait for every started reply
+    await waitFor(() => acks().length === 2 && replies() === typingStarts());
+
+    expect(acks()[1].data.message).toEqual(acks()[0].data.message);
+    const { body: stored } = await api(token)<Message[]>(`/chats/${created.data.id}/messages/poll`);
+    expect(stored.data.map(message => message.role))
+      .toEqual(['user', ...Array(typingStarts()).fill('assistant')]);
+    ws.close();
+  });
+
+  it('drops connections without a close frame', async () => {
+    const { token } = await signIn();
+    const { ws } = await connect(token);
+    const closed = new Promise(resolve => ws.on('close', resolve));
+
+    server.dropConnections();
+
+    expect(await closed).toBe(1006);
+  });
+});
@@ -0,0 +1,649 @@
+// Local stand-in for the Gurukul backend: the REST API of BACKEND_SPECIFICATIONS.md and the /ws
+// socket of WEBSOCKET_SPECIFICATIONS.md, backed by an in-memory store. Run it with
+// `npm run mock-server`, or start one per test with createMockServer({ port: 0 }).
+
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import type { AddressInfo } from 'node:net';
+import { WebSocketServer, WebSocket } from 'ws';
+import type { Chat, ChatSession, Message, User } from '../src/lib/types';
+import { deliverSocketMessage, generateReplyContents } from '../src/lib/mockReplies';
+
+export interface MockServerOptions {
+  port?: number;
+  host?: string;
+  // Pause before each assistant reply on the socket and between streamed words; 0 answers at once
+  replyDelay?: number;
+  // Contents of the assistant replies to a message; random canned replies by default
+  replies?: (agentId: string, content: string) => string[];
+}
+
+export interface MockServer {
+  // REST base URL (VITE_API_BASE_URL) and socket URL (VITE_WS_URL)
+  url: string;
+  wsUrl: string;
+  // Forget all chats and sessions
+  reset: () => void;
+  // Invalidate every access token but keep refresh tokens, to exercise the refresh flow
+  expireAccessTokens: () => void;
+  // Cut every socket without a close frame, as a lost network would (clients see 1006)
+  dropConnections: () => void;
+  close: () => Promise<void>;
+}
+
+// Codes starting with this prefix are rejected by /auth/google/code, to exercise failed sign-ins
+export const INVALID_AUTH_CODE_PREFIX = 'invalid';
+
+const AUTH_FAILED_CLOSE_CODE = 1008;
+
+interface StreamState {
+  replies: Message[];
+  events: { type: string; data?: unknown }[];
+  // Index of the last event written to any connection; assistant messages are stored once written
+  delivered: number;
+}
+
+interface Store {
+  users: Map<string, User>;
+  accessTokens: Map<string, string>;
+  refreshTokens: Map<string, string>;
+  chats: Map<string, Chat>;
+  messages: Map<string, Message[]>;
+  streams: Map<string, StreamState>;
+  // User messages taken over the socket, by the client's messageId
+  socketMessages: Map<string, Message>;
+  pushSubscriptions: Map<string, unknown>;
+}
+
+const createStore = (): Store => ({
+  users: new Map(),
+  accessTokens: new Map(),
+  refreshTokens: new Map(),
+  chats: new Map(),
+  messages: new Map(),
+  streams: new Map(),
+  socketMessages: new Map(),
+  pushSubscriptions: new Map()
+});
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+interface RequestContext {
+  req: IncomingMessage;
+  res: ServerResponse;
+  params: string[];
+  query: URLSearchParams;
+  body: Record<string, unknown>;
+  user: User | null;
+}
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  public?: boolean;
+  // A returned value is sent as JSON; handlers that write the response themselves return undefined
+  handle: (context: RequestContext) => unknown | Promise<unknown>;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const id = (prefix: string) => `${prefix}-${randomUUID()}`;
+
+const readBody = async (req: IncomingMessage): Promise<Record<string, unknown>> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const text = Buffer.concat(chunks).toString('utf8');
+  if (!text) return {};
+  try {
+    const body = JSON.parse(text);
+    return body && typeof body === 'object' ? body : {};
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON');
+  }
+};
+
+const requireString = (body: Record<string, unknown>, field: string): string => {
+  const value = body[field];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new HttpError(400, `${field} is required`);
+  }
+  return value;
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PATCH, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type, Last-Event-ID'
+};
+
+export const createMockServer = async (options: MockServerOptions = {}): Promise<MockServer> => {
+  const { port = 3001, host = 'localhost', replyDelay = 0, replies: replyContents = generateReplyContents } = options;
+  let store = createStore();
+  const sockets = new Set<{ ws: WebSocket; userId: string }>();
+
+  const issueTokens = (user: User) => {
+    const token = id('mock-access');
+    const refreshToken = id('mock-refresh');
+    store.accessTokens.set(token, user.id);
+    store.refreshTokens.set(refreshToken, user.id);
+    return { token, refreshToken };
+  };
+
+  const userForToken = (token: string | null): User | null => {
+    const userId = token ? store.accessTokens.get(token) : undefined;
+    return userId ? store.users.get(userId) ?? null : null;
+  };
+
+  const bearerToken = (req: IncomingMessage): string | null => {
+    const header = req.headers.authorization;
+    return header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : null;
+  };
+
+  const findChat = (user: User, chatId: string): Chat => {
+    const chat = store.chats.get(chatId);
+    // Other users' chats are reported as missing rather than forbidden
+    if (!chat || chat.userId !== user.id) {
+      throw new HttpError(404, 'Chat not found');
+    }
+    return chat;
+  };
+
+  const chatMessages = (chatId: string): Message[] => store.messages.get(chatId) ?? [];
+
+  const storeMessage = (message: Message): Message => {
+    store.messages.set(message.chatId, [...chatMessages(message.chatId), message]);
+    const chat = store.chats.get(message.chatId);
+    if (chat) {
+      store.chats.set(chat.id, {
+        ...chat,
+        messageCount: chat.messageCount + 1,
+        lastMessage: message.content,
+        updatedAt: new Date()
+      });
+    }
+    return message;
+  };
+
+  const storeUserMessage = (user: User, chatId: string, content: string, agentId: string): Message =>
+    storeMessage({
+      id: id('msg'),
+      chatId,
+      userId: user.id,
+      agentId,
+      content,
+      role: 'user',
+      timestamp: new Date()
+    });
+
+  // Reply messages are built up front and stored when they are delivered
+  const buildReplies = (chatId: string, agentId: string, content: string, multi: boolean): Message[] => {
+    const contents = replyContents(agentId, content);
+    const replies = multi ? contents : contents.slice(0, 1);
+    return replies.map((content, index) => ({
+      id: id('msg'),
+      chatId,
+      userId: 'assistant',
+      agentId,
+      content,
+      role: 'assistant',
+      timestamp: new Date(),
+      metadata: { confidence: 0.9, messageIndex: index + 1, totalMessages: replies.length }
+    }));
+  };
+
+  const replyPosition = (index: number, total: number) => ({
+    messageIndex: index + 1,
+    totalMessages: total,
+    isFirst: index === 0,
+    isAdditional: index > 0
+  });
+
+  const buildStreamEvents = (replies: Message[]): StreamState['events'] => {
+    const events: StreamState['events'] = [{ type: 'connected' }];
+    replies.forEach((reply, index) => {
+      const position = replyPosition(index, replies.length);
+      reply.content.split(' ').forEach((word, w) => {
+        events.push({ type: 'delta', data: { content: w === 0 ? word : ` ${word}`, ...position } });
+      });
+      events.push({ type: 'message', data: { id: reply.id, content: reply.content, ...position } });
+    });
+    events.push({ type: 'complete' });
+    return events;
+  };
+
+  // Writes the events of a stream after `fromIndex`. Event ids are `<streamId>:<index>`, so a
+  // client that reconnects with Last-Event-ID picks up where it left off.
+  const writeStream = async (res: ServerResponse, streamId: string, fromIndex: number) => {
+    const stream = store.streams.get(streamId);
+    if (!stream) return;
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive'
+    });
+
+    let closed = false;
+    res.on('close', () => {
+      closed = true;
+    });
+
+    for (let index = fromIndex; index < stream.events.length && !closed; index++) {
+      const event = stream.events[index];
+      if (event.type === 'delta' && replyDelay > 0) await sleep(replyDelay / 10);
+      if (closed) break;
+
+      if (index > stream.delivered) {
+        stream.delivered = index;
+        if (event.type === 'message') {
+          const { id: messageId } = event.data as { id: string };
+          const reply = stream.replies.find(message => message.id === messageId);
+          if (reply) storeMessage(reply);
+        }
+      }
+      res.write(`id: ${streamId}:${index}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    }
+
+    if (!closed) res.end();
+  };
+
+  const sendFrame = (ws: WebSocket, type: string, data: unknown) => {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify({ type, data, timestamp: Date.now() }));
+    }
+  };
+
+  // Chats have a single member, so every frame goes to all connections of their owner
+  const sendToUser = (userId: string, type: string, data: unknown) => {
+    sockets.forEach(socket => {
+      if (socket.userId === userId) sendFrame(socket.ws, type, data);
+    });
+  };
+
+  const handleSocketMessage = async (user: User, data: Record<string, unknown>) => {
+    const chatId = requireString(data, 'chatId');
+    const content = requireString(data, 'content');
+    const agentId = requireString(data, 'agentId');
+    findChat(user, chatId);
+
+    const replies = buildReplies(chatId, agentId, content, true);
+    await deliverSocketMessage({
+      chatId,
+      content,
+      agentId,
+      messageId: typeof data.messageId === 'string' ? data.messageId : undefined,
+      delivered: store.socketMessages,
+      storeUserMessage: () => storeUserMessage(user, chatId, content, agentId),
+      replies: replies.map(reply => reply.content),
+      pause: async () => {
+        await sleep(replyDelay);
+        return store.chats.has(chatId);
+      },
+      storeReply: (_, index) => storeMessage({ ...replies[index], timestamp: new Date() }),
+      send: (type, frame) => sendToUser(user.id, type, frame)
+    });
+  };
+
+  const handleFrame = async (ws: WebSocket, user: User, raw: string) => {
+    let frame: { type?: unknown; data?: unknown };
+    try {
+      frame = JSON.parse(raw);
+    } catch {
+      sendFrame(ws, 'error', { message: 'Invalid JSON', code: 400 });
+      return;
+    }
+    const data = frame.data && typeof frame.data === 'object' ? frame.data as Record<string, unknown> : {};
+
+    try {
+      switch (frame.type) {
+        case 'ping':
+          sendFrame(ws, 'pong', { timestamp: data.timestamp ?? Date.now() });
+          break;
+        case 'message':
+          await handleSocketMessage(user, data);
+          break;
+        case 'read_receipt': {
+          const chatId = requireString(data, 'chatId');
+          const messageIds = Array.isArray(data.messageIds) ? data.messageIds as string[] : [];
+          findChat(user, chatId);
+          store.messages.set(chatId, chatMessages(chatId).map(message => messageIds.includes(message.id)
+            ? { ...message, metadata: { ...message.metadata, read: true } }
+            : message));
+          sendFrame(ws, 'read_receipt', { chatId, messageIds, userId: user.id, confirmed: true });
+          break;
+        }
+        // Room membership and the user's typing state need no reaction from a single-user backend
+        case 'chat_update':
+        case 'typing':
+          break;
+        default:
+          sendFrame(ws, 'error', { message: 'Unknown message type', code: 400 });
+      }
+    } catch (error) {
+      const status = error instanceof HttpError ? error.status : 500;
+      sendFrame(ws, 'error', { message: error instanceof Error ? error.message : 'Message failed', code: status });
+    }
+  };
+
+  const routes: Route[] = [
+    {
+      method: 'POST',
+      pattern: /^\/auth\/google\/code$/,
+      public: true,
+      handle: ({ body }) => {
+        const code = requireString(body, 'code');
+        requireString(body, 'codeVerifier');
+        if (code.startsWith(INVALID_AUTH_CODE_PREFIX)) {
+          throw new HttpError(400, 'invalid_grant');
+        }
+
+        // Every sign-in maps to the same account, so chats survive logging out and back in
+        const user: User = store.users.get('mock-user') ?? {
+          id: 'mock-user',
+          email: 'asha@example.com',
+          name: 'Asha Mock',
+          createdAt: new Date(),
+          lastActive: new Date()
+        };
+        store.users.set(user.id, { ...user, lastActive: new Date() });
+        return { success: true, user, ...issueTokens(user) };
+      }
+    },
+    {
+      method: 'POST',
+      pattern: /^\/auth\/refresh$/,
+      public: true,
+      handle: ({ body }) => {
+        const refreshToken = requireString(body, 'refreshToken');
+        const userId = store.refreshTokens.get(refreshToken);
+        const user = userId ? store.users.get(userId) : undefined;
+        if (!user) {
+          throw new HttpError(401, 'Refresh token is invalid or revoked');
+        }
+        store.refreshTokens.delete(refreshToken);
+        return issueTokens(user);
+      }
+    },
+    {
+      method: 'GET',
+      pattern: /^\/auth\/me$/,
+      handle: ({ user }) => ({ success: true, data: user })
+    },
+    {
+      method: 'POST',
+      pattern: /^\/auth\/logout$/,
+      public: true,
+      handle: ({ req, body }) => {
+        const token = bearerToken(req);
+        if (token) store.accessTokens.delete(token);
+        if (typeof body.refreshToken === 'string') store.refreshTokens.delete(body.refreshToken);
+        return { success: true };
+      }
+    },
+    {
+      method: 'GET',
+      pattern: /^\/chats$/,
+      handle: ({ user }) => ({
+        success: true,
+        data: [...store.chats.values()]
+          .filter(chat => chat.userId === user!.id)
+          .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+      })
+    },
+    {
+      method: 'POST',
+      pattern: /^\/chats$/,
+      handle: ({ user, body, res }) => {
+        const agentId = requireString(body, 'agentId');
+        const chat: Chat = {
+          id: id('chat'),
+          userId: user!.id,
+          agentId,
+          title: `New ${agentId} chat`,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+          messageCount: 0
+        };
+        store.chats.set(chat.id, chat);
+        store.messages.set(chat.id, []);
+        sendJson(res, 201, { success: true, data: chat });
+      }
+    },
+    {
+      method: 'GET',
+      pattern: /^\/chats\/([^/]+)$/,
+      handle: ({ user, params: [chatId] }) => {
+        findChat(user!, chatId);
+        const session: ChatSession = {
+          chatId,
+          messages: chatMessages(chatId),
+          isLoading: false,
+          hasNewMessages: false,
+          pollCount: 0
+        };
+        return { success: true, data: session };
+      }
+    },
+    {
+      method: 'PATCH',
+      pattern: /^\/chats\/([^/]+)$/,
+      handle: ({ user, params: [chatId], body }) => {
+        const chat = findChat(user!, chatId);
+        store.chats.set(chatId, { ...chat, title: requireString(body, 'title'), updatedAt: new Date() });
+        return { success: true };
+      }
+    },
+    {
+      method: 'DELETE',
+      pattern: /^\/chats\/([^/]+)$/,
+      handle: ({ user, params: [chatId] }) => {
+        findChat(user!, chatId);
+        store.chats.delete(chatId);
+        store.messages.delete(chatId);
+        return { success: true };
+      }
+    },
+    {
+      // Page 1 holds the newest messages, later pages go further back
+      method: 'GET',
+      pattern: /^\/chats\/([^/]+)\/messages$/,
+      handle: ({ user, params: [chatId], query }) => {
+        findChat(user!, chatId);
+        const page = Math.max(1, Number(query.get('page')) || 1);
+        const limit = Math.max(1, Number(query.get('limit')) || 50);
+        const all = chatMessages(chatId);
+        const end = Math.max(0, all.length - (page - 1) * limit);
+        const start = Math.max(0, end - limit);
+        return { success: true, data: { messages: all.slice(start, end), hasMore: start > 0, total: all.length } };
+      }
+    },
+    {
+      method: 'POST',
+      pattern: /^\/chats\/([^/]+)\/messages$/,
+      handle: ({ user, params: [chatId], body }) => {
+        findChat(user!, chatId);
+        const content = requireString(body, 'content');
+        const agentId = requireString(body, 'agentId');
+        storeUserMessage(user!, chatId, content, agentId);
+        const [reply] = buildReplies(chatId, agentId, content, false);
+        return { success: true, data: storeMessage(reply) };
+      }
+    },
+    {
+      method: 'POST',
+      pattern: /^\/chats\/([^/]+)\/messages\/multi$/,
+      handle: ({ user, params: [chatId], body }) => {
+        findChat(user!, chatId);
+        const content = requireString(body, 'content');
+        const agentId = requireString(body, 'agentId');
+        storeUserMessage(user!, chatId, content, agentId);
+        const messages = buildReplies(chatId, agentId, content, true).map(storeMessage);
+        return { success: true, data: { messages, isMultiMessage: messages.length > 1, totalMessages: messages.length } };
+      }
+    },
+    {
+      method: 'POST',
+      pattern: /^\/chats\/([^/]+)\/messages\/stream$/,
+      handle: async ({ req, res, user, params: [chatId], body }) => {
+        findChat(user!, chatId);
+
+        const lastEventId = req.headers['last-event-id'];
+        if (typeof lastEventId === 'string') {
+          const [streamId, index] = lastEventId.split(':');
+          if (!store.streams.has(streamId)) {
+            throw new HttpError(404, 'Unknown stream');
+          }
+          await writeStream(res, streamId, Number(index) + 1);
+          return;
+        }
+
+        const content = requireString(body, 'content');
+        const agentId = requireString(body, 'agentId');
+        storeUserMessage(user!, chatId, content, agentId);
+
+        const streamId = randomUUID();
+        const replies = buildReplies(chatId, agentId, content, true);
+        store.streams.set(streamId, { replies, events: buildStreamEvents(replies), delivered: -1 });
+        await writeStream(res, streamId, 0);
+      }
+    },
+    {
+      method: 'GET',
+      pattern: /^\/chats\/([^/]+)\/messages\/poll$/,
+      handle: ({ user, params: [chatId], query }) => {
+        findChat(user!, chatId);
+        const all = chatMessages(chatId);
+        const lastMessageId = query.get('lastMessageId');
+        const index = lastMessageId ? all.findIndex(message => message.id === lastMessageId) : -1;
+        return { success: true, data: lastMessageId ? all.slice(index + 1) : all };
+      }
+    },
+    {
+      method: 'POST',
+      pattern: /^\/chats\/([^/]+)\/messages\/read$/,
+      handle: ({ user, params: [chatId], body }) => {
+        findChat(user!, chatId);
+        const messageIds = Array.isArray(body.messageIds) ? body.messageIds as string[] : [];
+        store.messages.set(chatId, chatMessages(chatId).map(message => messageIds.includes(message.id)
+          ? { ...message, metadata: { ...message.metadata, read: true } }
+          : message));
+        return { success: true };
+      }
+    },
+    {
+      method: 'POST',
+      pattern: /^\/notifications\/push-subscriptions$/,
+      handle: ({ user, body }) => {
+        store.pushSubscriptions.set(user!.id, body);
+        return { success: true };
+      }
+    }
+  ];
+
+  const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+    Object.entries(CORS_HEADERS).forEach(([name, value]) => res.setHeader(name, value));
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    const url = new URL(req.url ?? '/', `http://${req.headers.host}`);
+    // Serve both `<host>/api/chats` (the documented base URL) and `<host>/chats`
+    const path = url.pathname.replace(/^\/api(?=\/)/, '').replace(/\/$/, '');
+
+    try {
+      const route = routes.find(candidate => candidate.method === req.method && candidate.pattern.test(path));
+      if (!route) {
+        throw new HttpError(404, `No route for ${req.method} ${path}`);
+      }
+
+      const user = userForToken(bearerToken(req));
+      if (!route.public && !user) {
+        throw new HttpError(401, 'Unauthorized');
+      }
+
+      const body = req.method === 'GET' ? {} : await readBody(req);
+      const result = await route.handle({
+        req,
+        res,
+        params: path.match(route.pattern)!.slice(1),
+        query: url.searchParams,
+        body,
+        user
+      });
+      if (result !== undefined) sendJson(res, 200, result);
+    } catch (error) {
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      const status = error instanceof HttpError ? error.status : 500;
+      if (status === 500) console.error('Mock server error:', error);
+      sendJson(res, status, { success: false, error: error instanceof Error ? error.message : 'Internal error' });
+    }
+  };
+
+  const httpServer = createServer((req, res) => {
+    void handleRequest(req, res);
+  });
+  const wss = new WebSocketServer({ noServer: true });
+
+  httpServer.on('upgrade', (req, socket, head) => {
+    const url = new URL(req.url ?? '/', `http://${req.headers.host}`);
+    if (url.pathname !== '/ws') {
+      socket.destroy();
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, ws => {
+      const user = userForToken(url.searchParams.get('token'));
+      if (!user) {
+        ws.close(AUTH_FAILED_CLOSE_CODE, 'Authentication failed');
+        return;
+      }
+
+      const connection = { ws, userId: user.id };
+      sockets.add(connection);
+      ws.on('message', raw => {
+        void handleFrame(ws, user, raw.toString());
+      });
+      ws.on('close', () => sockets.delete(connection));
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(port, host, () => resolve());
+  });
+  const { port: boundPort } = httpServer.address() as AddressInfo;
+
+  return {
+    url: `http://${host}:${boundPort}/api`,
+    wsUrl: `ws://${host}:${boundPort}/ws`,
+    reset: () => {
+      store = createStore();
+    },
+    expireAccessTokens: () => {
+      store.accessTokens.clear();
+    },
+    dropConnections: () => {
+      sockets.forEach(({ ws }) => ws.terminate());
+    },
+    close: () => new Promise<void>((resolve, reject) => {
+      sockets.forEach(({ ws }) => ws.terminate());
+      wss.close();
+      httpServer.closeAllConnections();
+      httpServer.close(error => (error ? reject(error) : resolve()));
+    })
+  };
+};
@@ -1,527 +1,37 @@
-import { useState, useEffect } from 'react';
+import { BrowserRouter, Navigate, Outlet, Route, Routes, useLocation, useNavigate } from 'react-router-dom';
 import { AuthProvider, useAuth } from '@/contexts/AuthContext';
-import { chatApi } from '@/lib/api';
-import { Message, Chat } from '@/lib/types';
+import { ChatProvider } from '@/contexts/ChatContext';
+import { AI_AGENTS } from '@/lib/constants';
+import { WhatsAppChat } from '@/components/WhatsAppChat';
+import { AgentPicker } from '@/components/AgentPicker';
+import { ChatSidebar } from '@/components/ChatSidebar';
+import { SidebarInset, SidebarProvider } from '@/components/ui/sidebar';
 import { ConnectionTest } from '@/components/ConnectionTest';
 import { MultiMessageDemo } from '@/components/MultiMessageDemo';
 import { EndpointTester } from '@/components/EndpointTester';
 import { BackendMessageTester } from '@/components/BackendMessageTester';
+import { PwaUpdatePrompt } from '@/components/PwaUpdatePrompt';
+import { ReplyNotifier } from '@/components/ReplyNotifier';
+import { Toaster } from '@/components/ui/sonner';
 import './App.css';
 
-// WhatsApp-style Chat Interface with Backend Integration
-const WhatsAppChat = ({ expertName, onBack }: { expertName: string; onBack: () => void }) => {
-  const [message, setMessage] = useState('');
-  const [messages, setMessages] = useState<Message[]>([]);
-  const [currentChat, setCurrentChat] = useState<Chat | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
-  const [isSending, setIsSending] = useState(false);
-  const [isDemoMode, setIsDemoMode] = useState(false);
-  const { user, logout } = useAuth();
-
-  // Agent ID mapping (simplified to just Priya)
-  const getAgentId = (expertName: string) => {
-    return 'priya'; // Always use Priya
-  };
-
-  // Initialize chat when component loads
-  useEffect(() => {
-    initializeChat();
-  }, [expertName]);
-
-  // Listen for demo messages
-  useEffect(() => {
-    const handleDemoMessage = (event: CustomEvent) => {
-      const aiMessage = event.detail as Message;
-      setMessages(prev => [...prev, aiMessage]);
-    };
-
-    window.addEventListener('demoMessage', handleDemoMessage as EventListener);
-    return () => window.removeEventListener('demoMessage', handleDemoMessage as EventListener);
-  }, []);
-
-  const initializeChat = async () => {
-    if (!user) return;
-    
-    try {
-      setIsLoading(true);
-      const agentId = getAgentId(expertName);
-      
-      // Try to create a chat via backend first
-      let chat: Chat;
-      try {
-        chat = await chatApi.createChat(agentId);
-        console.log('Backend chat created:', chat);
-      } catch (error) {
-        console.log('Backend unavailable, using demo mode');
-        setIsDemoMode(true);
-        // Fallback to demo chat
-        chat = {
-          id: `demo-chat-${Date.now()}`,
-          userId: user.id,
-          agentId,
-          title: `Chat with Priya`,
-          createdAt: new Date(),
-          updatedAt: new Date(),
-          messageCount: 0,
-          lastMessage: ''
-        };
-      }
-      
-      setCurrentChat(chat);
-      
-      // Add welcome message
-      const welcomeMessage: Message = {
-        id: `welcome-${Date.now()}`,
-        chatId: chat.id,
-        userId: 'ai',
-        agentId,
-        content: `Hello! I'm Priya, your AI companion. I'm here to chat with you about anything on your mind. How are you doing today?`,
-        role: 'assistant',
-        timestamp: new Date()
-      };
-      
-      setMessages([welcomeMessage]);
-      
-    } catch (error) {
-      console.error('Failed to initialize chat:', error);
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  // Helper function to display messages with typing effect
-  const displayMessageWithTyping = async (message: Message, options: any = {}) => {
-    if (options.isFirst) {
-      setIsSending(true);
-    }
-    
-    // Simulate typing delay based on message length
-    const typingDelay = Math.min(message.content.length * 50, 3000); // Max 3 seconds
-    await new Promise(resolve => setTimeout(resolve, typingDelay));
-    
-    if (options.isFirst || !options.isAdditional) {
-      setIsSending(false);
-    }
-    
-    setMessages(prev => [...prev, message]);
-  };
-
-  // Multi-message batch API (Recommended for WhatsApp-like experience)
-  const sendMessageWithMultiResponse = async (messageText: string, agentId: string) => {
-    console.log('🚀 sendMessageWithMultiResponse called with:', { messageText, agentId, chatId: currentChat!.id });
-    
-    try {
-      // Try the new multi-message endpoint first
-      const response = await chatApi.sendMessageMulti(currentChat!.id, messageText, agentId);
-      
-      console.log('📡 Multi-message API response:', response);
-      
-      if (response.success && response.data.isMultiMessage) {
-        console.log(`🎉 Received ${response.data.totalMessages} messages from Priya!`);
-        
-        // Display messages one by one with realistic delays
-        for (let i = 0; i < response.data.messages.length; i++) {
-          console.log(`📝 Displaying message ${i + 1}/${response.data.totalMessages}:`, response.data.messages[i].content);
-          
-          await displayMessageWithTyping(response.data.messages[i], {
-            isFirst: i === 0,
-            isAdditional: i > 0,
-            messageIndex: i + 1,
-            totalMessages: response.data.totalMessages
-          });
-          
-          // Add delay between messages (except for the last one)
-          if (i < response.data.messages.length - 1) {
-            console.log(`⏳ Waiting 1.5s before next message...`);
-            await new Promise(resolve => setTimeout(resolve, 1500)); // 1.5 second delay
-          }
-        }
-        console.log('✅ All multi-messages displayed successfully!');
-      } else {
-        console.log('📄 Single message response received');
-        // Single message response
-        if (response.data.messages && response.data.messages.length > 0) {
-          await displayMessageWithTyping(response.data.messages[0]);
-        } else {
-          console.warn('⚠️ No messages in response data');
-        }
-      }
-    } catch (error) {
-      console.error('❌ Error sending multi-message:', error);
-      console.log('🔄 Falling back to regular message endpoint...');
-      
-      // Enhanced fallback: try the old endpoint too
-      await sendMessageFallbackWithOldEndpoint(messageText, agentId);
-    }
-  };
-
-  // Enhanced fallback that tries the old endpoint with multi-message support
-  const sendMessageFallbackWithOldEndpoint = async (messageText: string, agentId: string) => {
-    try {
-      console.log('🔄 Trying old endpoint with multi-message support...');
-      
-      const response = await chatApi.sendMessage(currentChat!.id, messageText, agentId);
-      console.log('📡 Old endpoint response:', response);
-      
-      // Check if the old endpoint now returns multi-message data
-      if ((response as any).isMultiMessage && (response as any).messages) {
-        console.log(`🎉 Old endpoint returned ${(response as any).totalMessages} messages!`);
-        
-        // Display each message with delay
-        for (let i = 0; i < (response as any).messages.length; i++) {
-          const messageContent = (response as any).messages[i];
-          
-          // Show typing indicator between messages
-          if (i > 0) {
-            setIsSending(true);
-            await new Promise(resolve => setTimeout(resolve, 1000 + Math.random() * 1000));
-            setIsSending(false);
-          }
-          
-          // Create message object
-          const aiMessage: Message = {
-            id: `ai-old-${Date.now()}-${i}`,
-            chatId: currentChat!.id,
-            userId: 'ai',
-            agentId,
-            content: messageContent,
-            role: 'assistant',
-            timestamp: new Date(),
-                         isMultiMessage: (response as any).totalMessages > 1,
-             isFirst: i === 0,
-             isAdditional: i > 0,
-             messageIndex: i + 1,
-             totalMessages: (response as any).totalMessages
-          };
-          
-                     setMessages(prev => [...prev, aiMessage]);
-           console.log(`📝 Displayed message ${i + 1}/${(response as any).totalMessages}: ${messageContent}`);
-        }
-      } else {
-        // Regular single message from old endpoint
-        console.log('📄 Single message from old endpoint');
-        await sendMessageFallback(messageText, agentId);
-      }
-    } catch (oldEndpointError) {
-      console.error('❌ Old endpoint also failed:', oldEndpointError);
-      // Final fallback to demo mode
-      await sendMessageFallback(messageText, agentId);
-    }
-  };
-
-  // Enhanced fallback with multi-message detection
-  const sendMessageFallback = async (messageText: string, agentId: string) => {
-    // Try backend first, then fallback to demo
-    if (!isDemoMode) {
-      try {
-        console.log('🔄 Trying backend with enhanced multi-message detection...');
-        console.log('Sending message to backend:', { chatId: currentChat!.id, message: messageText, agentId });
-        
-        const response = await chatApi.sendMessage(currentChat!.id, messageText, agentId);
-        console.log('🔍 Enhanced backend response:', response);
-        
-        // Check if response is multi-message format
-        if (response && typeof response === 'object' && 'isMultiMessage' in response) {
-          const multiResponse = response as { isMultiMessage: boolean; messages: string[]; totalMessages: number; primaryMessage: Message };
-          console.log(`🎉 DETECTED MULTI-MESSAGE FROM BACKEND: ${multiResponse.totalMessages} messages!`);
-          
-          // Display each message with delays
-          for (let i = 0; i < multiResponse.messages.length; i++) {
-            const messageContent = multiResponse.messages[i];
-            
-            // Show typing indicator between messages
-            if (i > 0) {
-              console.log(`⏳ Showing typing indicator before message ${i + 1}...`);
-              setIsSending(true);
-              await new Promise(resolve => setTimeout(resolve, 1000 + Math.random() * 1000));
-              setIsSending(false);
-            }
-            
-            // Create message object
-            const aiMessage: Message = {
-              id: `ai-backend-${Date.now()}-${i}`,
-              chatId: currentChat!.id,
-              userId: 'ai',
-              agentId,
-              content: messageContent,
-              role: 'assistant',
-              timestamp: new Date(),
-                             isMultiMessage: multiResponse.totalMessages > 1,
-               isFirst: i === 0,
-               isAdditional: i > 0,
-               messageIndex: i + 1,
-               totalMessages: multiResponse.totalMessages
-            };
-            
-                         setMessages(prev => [...prev, aiMessage]);
-             console.log(`✅ Displayed backend message ${i + 1}/${multiResponse.totalMessages}: ${messageContent}`);
-          }
-          return; // Success with multi-message
-        }
-        
-        // Handle single message response
-        if (response && (response as Message).content) {
-          console.log('📄 Single message from backend');
-          const singleMessage = response as Message;
-          const aiMessage: Message = {
-            id: singleMessage.id || `ai-${Date.now()}`,
-            chatId: currentChat!.id,
-            userId: 'ai',
-            agentId,
-            content: singleMessage.content,
-            role: 'assistant',
-            timestamp: new Date(singleMessage.timestamp || Date.now())
-          };
-          setMessages(prev => [...prev, aiMessage]);
-          return; // Success with single message
-        }
-        
-      } catch (apiError) {
-        console.error('❌ Backend API failed, switching to demo mode:', apiError);
-        setIsDemoMode(true);
-      }
-    }
-    
-    // Fallback to simulated AI response (always works)
-    console.log('🔄 Using demo mode fallback...');
-    setTimeout(() => {
-      const aiResponse = getPriyaResponse(messageText);
-      const aiMessage: Message = {
-        id: `ai-demo-${Date.now()}`,
-        chatId: currentChat!.id,
-        userId: 'ai',
-        agentId,
-        content: aiResponse,
-        role: 'assistant',
-        timestamp: new Date()
-      };
-      setMessages(prev => [...prev, aiMessage]);
-    }, 1500 + Math.random() * 1500); // Random delay 1-3 seconds
-  };
-
-  const sendMessage = async () => {
-    if (!message.trim() || !currentChat || isSending) return;
-
-    const messageText = message.trim();
-    setMessage('');
-    setIsSending(true);
-
-    try {
-      // Add user message immediately
-      const userMessage: Message = {
-        id: `user-${Date.now()}`,
-        chatId: currentChat.id,
-        userId: user?.id || 'demo-user',
-        agentId: getAgentId(expertName),
-        content: messageText,
-        role: 'user',
-        timestamp: new Date()
-      };
-      
-      setMessages(prev => [...prev, userMessage]);
-
-      // Use multi-message API for WhatsApp-like experience
-      await sendMessageWithMultiResponse(messageText, getAgentId(expertName));
-      
-    } catch (error) {
-      console.error('Failed to send message:', error);
-    } finally {
-      setIsSending(false);
-    }
-  };
-
-  const getPriyaResponse = (userMsg: string) => {
-    const priyaResponses = [
-      "I'm here for you! Tell me more about what's on your mind. I love having these conversations with you.",
-      "That sounds really interesting! I'd love to hear more about that. You always have such thoughtful perspectives.",
-      "You're so thoughtful! I appreciate you sharing that with me. It means a lot that you trust me with your thoughts.",
-      "I'm always here to listen and chat about whatever is important to you. What's been making you happy lately?",
-      "Thank you for opening up to me. I enjoy our conversations so much. How are you feeling about everything?",
-      "That's such an interesting way to look at it! I really appreciate how you think about things.",
-      "I can tell this is important to you. I'm here to listen and support you through whatever you're going through.",
-      "You have such a unique perspective on things. I always learn something new when we talk.",
-      "I'm so glad you feel comfortable sharing with me. Your thoughts and feelings matter so much.",
-      "That resonates with me deeply. How long have you been thinking about this?",
-      "I can hear the emotion in your words. It's beautiful how deeply you feel about things.",
-      "You're such a caring person. The world needs more people like you who think about these things.",
-      "I love how open and honest you are with me. It makes our conversations so meaningful.",
-      "That's a really important question. I think about things like that too sometimes.",
-      "You always know how to make me think! I really value our conversations and your insights."
-    ];
-    
-    return priyaResponses[Math.floor(Math.random() * priyaResponses.length)];
-  };
+// Login Screen with Google Auth
+const LoginScreen = () => {
+  const { login, loginAsGuest, isLoading, error } = useAuth();
 
-  const handleLogout = async () => {
+  const handleGoogleLogin = async () => {
     try {
-      await logout();
-      onBack();
+      await login();
     } catch (error) {
-      console.error('Logout failed:', error);
+      console.error('Login failed:', error);
     }
   };
 
-  const formatTime = (timestamp: Date) => {
-    return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-  };
-
-  if (isLoading) {
-    return (
-      <div className="h-screen bg-gray-100 flex items-center justify-center">
-        <div className="text-center">
-          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-500 mx-auto mb-4"></div>
-          <p className="text-gray-600">Connecting to Priya...</p>
-        </div>
-      </div>
-    );
-  }
-
-  return (
-    <div className="h-screen bg-gray-100 flex flex-col">
-      {/* WhatsApp Header */}
-      <div className="bg-green-500 text-white p-4 flex items-center justify-between shadow-lg">
-        <div className="flex items-center space-x-3">
-          <button 
-            onClick={onBack}
-            className="text-white hover:bg-green-600 p-2 rounded-full transition-colors"
-          >
-            ←
-          </button>
-          <div className="w-10 h-10 bg-pink-400 rounded-full flex items-center justify-center text-lg">
-            💕
-          </div>
-          <div>
-            <h1 className="font-semibold">Priya</h1>
-            <p className="text-xs text-green-100">
-              {isSending ? 'Typing...' : isDemoMode ? 'Demo Mode' : 'Online'}
-            </p>
-          </div>
-        </div>
-        <button 
-          onClick={handleLogout}
-          className="text-white hover:bg-green-600 p-2 rounded-full transition-colors text-sm"
-          title="Logout"
-        >
-          🚪
-        </button>
-      </div>
-
-      {/* Messages Area */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-4 bg-gray-50">
-        {messages.map((msg) => (
-          <div
-            key={msg.id}
-            className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'} ${
-              msg.isMultiMessage && msg.isAdditional ? 'mt-1' : 'mt-3'
-            }`}
-          >
-            <div
-              className={`max-w-sm lg:max-w-lg px-4 py-3 rounded-2xl relative ${
-                msg.role === 'user'
-                  ? 'bg-green-500 text-white rounded-br-md shadow-md'
-                  : msg.isMultiMessage && msg.isAdditional
-                  ? 'bg-gray-50 text-gray-800 rounded-bl-md shadow-sm border border-gray-200'
-                  : 'bg-white text-gray-800 rounded-bl-md shadow-md border border-gray-100'
-              }`}
-            >
-              {/* Multi-message indicator */}
-              {msg.isMultiMessage && (
-                <div className={`text-xs mb-2 flex items-center ${
-                  msg.role === 'user' ? 'text-green-100' : 'text-gray-500'
-                }`}>
-                  {msg.isFirst && (
-                    <>
-                      <span className="inline-block w-2 h-2 bg-pink-400 rounded-full mr-2"></span>
-                      <span>Message {msg.messageIndex}/{msg.totalMessages}</span>
-                    </>
-                  )}
-                  {msg.isAdditional && (
-                    <>
-                      <span className="inline-block w-1.5 h-1.5 bg-pink-300 rounded-full mr-2"></span>
-                      <span>{msg.messageIndex}/{msg.totalMessages}</span>
-                    </>
-                  )}
-                </div>
-              )}
-              
-              <p className="text-sm leading-relaxed">{msg.content}</p>
-              
-              <div className="flex items-center justify-between mt-2">
-                <p className={`text-xs ${
-                  msg.role === 'user' ? 'text-green-100' : 'text-gray-500'
-                }`}>
-                  {formatTime(msg.timestamp)}
-                </p>
-                
-                {/* Multi-message chain indicator */}
-                {msg.isMultiMessage && msg.totalMessages && msg.totalMessages > 1 && (
-                  <div className="flex space-x-1">
-                    {Array.from({ length: msg.totalMessages }, (_, i) => (
-                      <div
-                        key={i}
-                        className={`w-1.5 h-1.5 rounded-full ${
-                          i < (msg.messageIndex || 1)
-                            ? msg.role === 'user' ? 'bg-green-200' : 'bg-pink-400'
-                            : msg.role === 'user' ? 'bg-green-300' : 'bg-gray-300'
-                        }`}
-                      />
-                    ))}
-                  </div>
-                )}
-              </div>
-            </div>
-          </div>
-        ))}
-        {isSending && (
-          <div className="flex justify-start">
-            <div className="bg-white text-gray-800 rounded-2xl rounded-bl-md shadow-md px-4 py-3 border border-gray-100">
-              <div className="flex space-x-1 items-center">
-                <span className="text-xs text-gray-500 mr-2">Priya is typing</span>
-                <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"></div>
-                <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.1s' }}></div>
-                <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.2s' }}></div>
-              </div>
-            </div>
-          </div>
-        )}
-      </div>
-
-      {/* Input Area */}
-      <div className="bg-white border-t border-gray-200 p-4 flex items-center space-x-3">
-        <input
-          type="text"
-          value={message}
-          onChange={(e) => setMessage(e.target.value)}
-          onKeyPress={(e) => e.key === 'Enter' && !isSending && sendMessage()}
-          placeholder="Type a message..."
-          disabled={isSending}
-          className="flex-1 bg-gray-100 border-0 rounded-full px-4 py-3 focus:outline-none focus:ring-2 focus:ring-green-500 disabled:opacity-50 text-sm"
-        />
-        <button
-          onClick={sendMessage}
-          disabled={!message.trim() || isSending}
-          className="bg-green-500 text-white p-3 rounded-full hover:bg-green-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed shadow-md"
-        >
-          <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
-            <path d="M10.894 2.553a1 1 0 00-1.788 0l-7 14a1 1 0 001.169 1.409l5-1.429A1 1 0 009 15.571V11a1 1 0 112 0v4.571a1 1 0 00.725.962l5 1.428a1 1 0 001.17-1.408l-7-14z" />
-          </svg>
-        </button>
-      </div>
-    </div>
-  );
-};
-
-// Login Screen with Google Auth
-const LoginScreen = ({ onExpertSelect }: { onExpertSelect: (expert: string) => void }) => {
-  const { login, isLoading, error } = useAuth();
-
-  const handleGoogleLogin = async () => {
+  const handleGuestLogin = async () => {
     try {
-      await login();
-      // Automatically select Priya after login
-      onExpertSelect('💕 Priya');
+      await loginAsGuest();
     } catch (error) {
-      console.error('Login failed:', error);
+      console.error('Guest login failed:', error);
     }
   };
 
@@ -572,9 +82,17 @@ const LoginScreen = ({ onExpertSelect }: { onExpertSelect: (expert: string) => v
             </svg>
             <span>{isLoading ? 'Signing in...' : 'Start chatting with Priya'}</span>
           </button>
+
+          <button
+            onClick={handleGuestLogin}
+            disabled={isLoading}
+            className="w-full text-pink-600 py-2 px-4 rounded-xl font-medium hover:bg-pink-50 transition-colors disabled:opacity-50"
+          >
+            Try as guest
+          </button>
           
           <div className="text-center text-sm text-gray-500">
-            🔒 Secure Google authentication required
+            🔒 Guest chats stay in this browser and are cleared when you sign out
           </div>
         </div>
       </div>
@@ -582,20 +100,67 @@ const LoginScreen = ({ onExpertSelect }: { onExpertSelect: (expert: string) => v
   );
 };
 
+// Shown instead of the login screen when Google sign-in did not go through
+const OAuthErrorScreen = () => {
+  const { oauthError, login, dismissOAuthError, isLoading } = useAuth();
+
+  const handleRetry = async () => {
+    try {
+      await login();
+    } catch (error) {
+      console.error('Login failed:', error);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-pink-400 to-purple-600 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl p-8 w-full max-w-md text-center">
+        <div className="w-20 h-20 bg-red-50 rounded-full flex items-center justify-center mx-auto mb-4">
+          <span className="text-4xl">{oauthError?.code === 'access_denied' ? '🙅' : '⚠️'}</span>
+        </div>
+        <h1 className="text-2xl font-bold text-gray-800 mb-2">
+          {oauthError?.code === 'access_denied' ? 'Sign-in cancelled' : 'Sign-in failed'}
+        </h1>
+        <p className="text-gray-600 mb-8">{oauthError?.message}</p>
+
+        <div className="space-y-3">
+          <button
+            onClick={handleRetry}
+            disabled={isLoading}
+            className="w-full bg-pink-500 text-white py-3 px-4 rounded-xl font-semibold hover:bg-pink-600 transition-colors disabled:opacity-50"
+          >
+            {isLoading ? 'Signing in...' : 'Try again with Google'}
+          </button>
+          <button
+            onClick={dismissOAuthError}
+            className="w-full text-gray-600 py-2 px-4 rounded-xl hover:bg-gray-50 transition-colors"
+          >
+            Back to sign in
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Chat screens share the conversation history sidebar
+const ChatLayout = () => (
+  <SidebarProvider>
+    <ChatSidebar />
+    <SidebarInset>
+      <Outlet />
+    </SidebarInset>
+  </SidebarProvider>
+);
+
 // App Content with Auth Check
 const AppContent = () => {
-  const { user, isLoading } = useAuth();
-  const [selectedExpert, setSelectedExpert] = useState<string>('');
+  const { user, isLoading, oauthError } = useAuth();
+  const location = useLocation();
+  const navigate = useNavigate();
   
   // Debug mode check
-  const isDebugMode = new URLSearchParams(window.location.search).get('debug') === 'true';
-  
-  // Auto-select Priya when user logs in
-  useEffect(() => {
-    if (user && !selectedExpert) {
-      setSelectedExpert('💕 Priya');
-    }
-  }, [user, selectedExpert]);
+  const isDebugMode = new URLSearchParams(location.search).get('debug') === 'true';
   
   if (isLoading) {
     return (
@@ -609,7 +174,7 @@ const AppContent = () => {
   }
 
   if (!user) {
-    return <LoginScreen onExpertSelect={setSelectedExpert} />;
+    return oauthError ? <OAuthErrorScreen /> : <LoginScreen />;
   }
 
   // Debug mode shows connection test
@@ -627,7 +192,7 @@ const AppContent = () => {
               Exit Debug Mode
             </button>
             <button 
-              onClick={() => setSelectedExpert('💕 Priya')}
+              onClick={() => navigate(AI_AGENTS.PRIYA.route)}
               className="bg-green-500 text-white px-4 py-2 rounded hover:bg-green-600"
             >
               Go to Chat
@@ -650,33 +215,19 @@ const AppContent = () => {
     );
   }
 
-  if (selectedExpert) {
-    return (
-      <WhatsAppChat 
-        expertName={selectedExpert} 
-        onBack={() => setSelectedExpert('')}
-      />
-    );
-  }
-
-  // This should rarely be reached since we auto-select Priya
   return (
-    <div className="min-h-screen bg-gradient-to-br from-pink-400 to-purple-600 flex items-center justify-center p-4">
-      <div className="bg-white rounded-2xl shadow-2xl p-8 w-full max-w-md">
-        <div className="text-center">
-          <div className="w-16 h-16 bg-pink-100 rounded-full flex items-center justify-center mx-auto mb-4">
-            <span className="text-2xl">💕</span>
-          </div>
-          <h1 className="text-2xl font-bold text-gray-800 mb-2">Welcome, {user.name}!</h1>
-          <button 
-            onClick={() => setSelectedExpert('💕 Priya')}
-            className="bg-pink-500 text-white px-6 py-3 rounded-xl font-semibold hover:bg-pink-600 transition-colors"
-          >
-            Start chatting with Priya
-          </button>
-        </div>
-      </div>
-    </div>
+    <Routes>
+      <Route path="/" element={<AgentPicker />} />
+      <Route element={<ChatLayout />}>
+        {Object.values(AI_AGENTS).map((agent) => (
+          <Route key={agent.id} path={agent.route} element={<WhatsAppChat agent={agent} />} />
+        ))}
+        {Object.values(AI_AGENTS).map((agent) => (
+          <Route key={`${agent.id}-chat`} path={`${agent.route}/:chatId`} element={<WhatsAppChat agent={agent} />} />
+        ))}
+      </Route>
+      <Route path="*" element={<Navigate to="/" replace />} />
+    </Routes>
   );
 };
 
@@ -685,11 +236,18 @@ const App = () => {
   console.log('🚀 WhatsApp-style App with Backend Integration');
   
   return (
-        <AuthProvider>
-      <div className="min-h-screen bg-gray-50">
+    <BrowserRouter>
+      <AuthProvider>
+        <ChatProvider>
+          <div className="min-h-screen bg-gray-50">
             <AppContent />
-      </div>
-        </AuthProvider>
+          </div>
+          <Toaster />
+          <PwaUpdatePrompt />
+          <ReplyNotifier />
+        </ChatProvider>
+      </AuthProvider>
+    </BrowserRouter>
 );
 };
 
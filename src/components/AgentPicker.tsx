@@ -0,0 +1,50 @@
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { AI_AGENTS } from '@/lib/constants';
+
+// Home screen: pick which AI guru to talk to
+export const AgentPicker = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-pink-400 to-purple-600 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl p-8 w-full max-w-2xl">
+        <div className="text-center mb-8">
+          <h1 className="text-2xl font-bold text-gray-800 mb-2">Welcome, {user?.name}!</h1>
+          <p className="text-gray-600">Who would you like to talk to today?</p>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          {Object.values(AI_AGENTS).map((agent) => (
+            <button
+              key={agent.id}
+              onClick={() => navigate(agent.route)}
+              className={`${agent.bgGradient} text-left p-5 rounded-xl border border-gray-200 hover:shadow-lg transition-shadow`}
+            >
+              <div className="flex items-center space-x-3 mb-3">
+                <div
+                  className="w-12 h-12 rounded-full flex items-center justify-center text-2xl text-white"
+                  style={{ backgroundColor: agent.primaryColor }}
+                >
+                  {agent.icon}
+                </div>
+                <div>
+                  <h3 className="font-semibold text-gray-800">{agent.name}</h3>
+                  <p className="text-xs text-gray-600">{agent.description}</p>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {agent.features.map((feature) => (
+                  <span key={feature} className="text-xs bg-white/70 text-gray-600 px-2 py-0.5 rounded-full">
+                    {feature}
+                  </span>
+                ))}
+              </div>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -2,6 +2,7 @@ import { useState } from 'react';
 import { Button } from './ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { chatApi } from '@/lib/api';
+import { Message } from '@/lib/types';
 
 export const BackendMessageTester = () => {
   const [testResult, setTestResult] = useState<any>(null);
@@ -13,11 +14,7 @@ export const BackendMessageTester = () => {
     console.log('🧪 Starting backend message test...');
     
     try {
-      // Ensure we have a demo token
-      const demoToken = `demo-token-${Date.now()}`;
-      localStorage.setItem('authToken', demoToken);
-      
-      const testChatId = 'test-chat-multi-message';
+      const { id: testChatId } = await chatApi.createChat('priya');
       
       console.log('📤 Sending to backend:', {
         chatId: testChatId,
@@ -35,10 +32,8 @@ export const BackendMessageTester = () => {
         response,
         timestamp: new Date().toISOString(),
         responseType: typeof response,
-        hasMultiMessage: response && typeof response === 'object' && 'isMultiMessage' in response,
-        messageCount: response && typeof response === 'object' && 'messages' in response 
-          ? (response as any).messages.length 
-          : 1
+        hasMultiMessage: response.isMultiMessage,
+        messageCount: response.totalMessages
       });
       
     } catch (error: any) {
@@ -151,9 +146,9 @@ export const BackendMessageTester = () => {
                         <div>Total Messages: <strong>{testResult.response.totalMessages}</strong></div>
                         <div>Messages:</div>
                         <ol className="list-decimal list-inside space-y-1 ml-4">
-                          {testResult.response.messages.map((msg: string, i: number) => (
-                            <li key={i} className="text-xs">
-                              <span className="bg-white px-2 py-1 rounded border ml-2">{msg}</span>
+                          {testResult.response.messages.map((msg: Message) => (
+                            <li key={msg.id} className="text-xs">
+                              <span className="bg-white px-2 py-1 rounded border ml-2">{msg.content}</span>
                             </li>
                           ))}
                         </ol>
@@ -0,0 +1,239 @@
+import { useState, useMemo, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { differenceInCalendarDays, isToday, isYesterday } from 'date-fns';
+import { MoreHorizontal, Pencil, Plus, Trash2 } from 'lucide-react';
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupAction,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuBadge,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from '@/components/ui/sidebar';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useChat } from '@/contexts/ChatContext';
+import { AI_AGENTS, getAgentById } from '@/lib/constants';
+import { Chat } from '@/lib/types';
+
+const DATE_GROUPS = ['Today', 'Yesterday', 'Last week', 'Older'] as const;
+
+type DateGroup = typeof DATE_GROUPS[number];
+
+const getDateGroup = (date: Date): DateGroup => {
+  if (isToday(date)) return 'Today';
+  if (isYesterday(date)) return 'Yesterday';
+  if (differenceInCalendarDays(new Date(), date) <= 7) return 'Last week';
+  return 'Older';
+};
+
+// Conversation history grouped by agent, then by last activity
+export const ChatSidebar = () => {
+  const { chats, currentChat, updateChatTitle, deleteChat } = useChat();
+  const navigate = useNavigate();
+  const [filter, setFilter] = useState('');
+  const [editingChatId, setEditingChatId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+  const [chatToDelete, setChatToDelete] = useState<Chat | null>(null);
+  const cancelRenameRef = useRef(false);
+
+  const groupedChats = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    const visibleChats = chats
+      .filter(chat => !query ||
+        chat.title.toLowerCase().includes(query) ||
+        chat.lastMessage?.toLowerCase().includes(query))
+      .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+
+    return Object.values(AI_AGENTS)
+      .map(agent => {
+        const agentChats = visibleChats.filter(chat => chat.agentId === agent.id);
+        const dateGroups = DATE_GROUPS
+          .map(label => ({
+            label,
+            chats: agentChats.filter(chat => getDateGroup(new Date(chat.updatedAt)) === label)
+          }))
+          .filter(group => group.chats.length > 0);
+        return { agent, dateGroups, count: agentChats.length };
+      })
+      .filter(group => group.count > 0);
+  }, [chats, filter]);
+
+  const openChat = (chat: Chat) => {
+    const agent = getAgentById(chat.agentId);
+    if (agent) {
+      navigate(`${agent.route}/${chat.id}`);
+    }
+  };
+
+  const startRename = (chat: Chat) => {
+    setEditingChatId(chat.id);
+    setEditingTitle(chat.title);
+  };
+
+  const commitRename = async (chat: Chat, value: string) => {
+    const cancelled = cancelRenameRef.current;
+    cancelRenameRef.current = false;
+    setEditingChatId(null);
+
+    const title = value.trim();
+    if (!cancelled && title && title !== chat.title) {
+      await updateChatTitle(chat.id, title);
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!chatToDelete) return;
+
+    const chat = chatToDelete;
+    setChatToDelete(null);
+    await deleteChat(chat.id);
+
+    // Leave the deleted conversation for a fresh chat with the same agent
+    if (currentChat?.chatId === chat.id) {
+      navigate(getAgentById(chat.agentId)?.route || '/', { state: { newChat: true } });
+    }
+  };
+
+  return (
+    <>
+      <Sidebar>
+        <SidebarHeader>
+          <h2 className="px-2 pt-2 text-sm font-semibold">Conversations</h2>
+          <SidebarInput
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Search chats..."
+          />
+        </SidebarHeader>
+
+        <SidebarContent>
+          {groupedChats.length === 0 && (
+            <p className="px-4 py-6 text-center text-xs text-muted-foreground">
+              {filter ? 'No chats match your search' : 'No conversations yet'}
+            </p>
+          )}
+
+          {groupedChats.map(({ agent, dateGroups }) => (
+            <SidebarGroup key={agent.id}>
+              <SidebarGroupLabel>
+                <span className="mr-2">{agent.icon}</span>
+                {agent.name}
+              </SidebarGroupLabel>
+              <SidebarGroupAction title={`New chat with ${agent.shortName}`} onClick={() => navigate(agent.route, { state: { newChat: true } })}>
+                <Plus />
+              </SidebarGroupAction>
+              <SidebarGroupContent>
+                {dateGroups.map(group => (
+                  <div key={group.label}>
+                    <p className="px-2 pb-1 pt-2 text-[11px] uppercase tracking-wide text-muted-foreground">
+                      {group.label}
+                    </p>
+                    <SidebarMenu>
+                      {group.chats.map(chat => (
+                        <SidebarMenuItem key={chat.id}>
+                          {editingChatId === chat.id ? (
+                            <SidebarInput
+                              autoFocus
+                              value={editingTitle}
+                              onChange={(e) => setEditingTitle(e.target.value)}
+                              onBlur={(e) => commitRename(chat, e.currentTarget.value)}
+                              onKeyDown={(e) => {
+                                if (e.key === 'Escape') cancelRenameRef.current = true;
+                                if (e.key === 'Enter' || e.key === 'Escape') e.currentTarget.blur();
+                              }}
+                            />
+                          ) : (
+                            <>
+                              <SidebarMenuButton
+                                size="lg"
+                                isActive={currentChat?.chatId === chat.id}
+                                onClick={() => openChat(chat)}
+                                className="pr-14"
+                              >
+                                <div className="flex min-w-0 flex-col">
+                                  <span className="truncate font-medium">{chat.title}</span>
+                                  {chat.lastMessage && (
+                                    <span className="truncate text-xs text-muted-foreground">{chat.lastMessage}</span>
+                                  )}
+                                </div>
+                              </SidebarMenuButton>
+                              <SidebarMenuBadge className="right-7">{chat.messageCount}</SidebarMenuBadge>
+                              <DropdownMenu>
+                                <DropdownMenuTrigger asChild>
+                                  <SidebarMenuAction showOnHover>
+                                    <MoreHorizontal />
+                                  </SidebarMenuAction>
+                                </DropdownMenuTrigger>
+                                <DropdownMenuContent
+                                  side="right"
+                                  align="start"
+                                  // Keep focus on the inline rename input instead of the trigger
+                                  onCloseAutoFocus={(e) => e.preventDefault()}
+                                >
+                                  <DropdownMenuItem onClick={() => startRename(chat)}>
+                                    <Pencil className="mr-2 h-4 w-4" />
+                                    Rename
+                                  </DropdownMenuItem>
+                                  <DropdownMenuItem
+                                    onClick={() => setChatToDelete(chat)}
+                                    className="text-red-600 focus:text-red-600"
+                                  >
+                                    <Trash2 className="mr-2 h-4 w-4" />
+                                    Delete
+                                  </DropdownMenuItem>
+                                </DropdownMenuContent>
+                              </DropdownMenu>
+                            </>
+                          )}
+                        </SidebarMenuItem>
+                      ))}
+                    </SidebarMenu>
+                  </div>
+                ))}
+              </SidebarGroupContent>
+            </SidebarGroup>
+          ))}
+        </SidebarContent>
+      </Sidebar>
+
+      <AlertDialog open={!!chatToDelete} onOpenChange={(open) => !open && setChatToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this chat?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{chatToDelete?.title}" and all of its messages will be permanently deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete} className="bg-red-600 hover:bg-red-700">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
@@ -3,10 +3,13 @@ import { Button } from './ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
 import { chatApi } from '@/lib/api';
+import { mockChatApi } from '@/lib/mockBackend';
+import { useChat } from '@/contexts/ChatContext';
 
 export const ConnectionTest = () => {
   const [testResults, setTestResults] = useState<{ [key: string]: any }>({});
   const [isLoading, setIsLoading] = useState(false);
+  const { connectionState, latency } = useChat();
 
   const runTest = async (testName: string, testFn: () => Promise<any>) => {
     setIsLoading(true);
@@ -47,21 +50,15 @@ export const ConnectionTest = () => {
     return chatApi.getChats();
   };
 
-  const testDemoLogin = async () => {
-    // Set up demo credentials
-    const demoToken = `demo-token-${Date.now()}`;
-    localStorage.setItem('authToken', demoToken);
-    
-    const result = await chatApi.createChat('priya');
-    return result;
+  // Talks to the in-browser mock directly, so the current session is left alone
+  const testMockBackend = async () => {
+    const chat = await mockChatApi.createChat('priya');
+    return mockChatApi.sendMessageMulti(chat.id, 'Hi Priya!', 'priya');
   };
 
   const testMultiMessage = async () => {
-    // Set up demo credentials
-    const demoToken = `demo-token-${Date.now()}`;
-    localStorage.setItem('authToken', demoToken);
-    
-    const result = await chatApi.sendMessageMulti('demo-chat-123', 'Tell me about yourself and what you enjoy doing', 'priya');
+    const chat = await chatApi.createChat('priya');
+    const result = await chatApi.sendMessageMulti(chat.id, 'Tell me about yourself and what you enjoy doing', 'priya');
     return result;
   };
 
@@ -94,6 +91,7 @@ export const ConnectionTest = () => {
             <div>VITE_BACKEND_URL: {import.meta.env.VITE_BACKEND_URL || 'NOT SET'}</div>
             <div>VITE_WS_URL: {import.meta.env.VITE_WS_URL || 'NOT SET'}</div>
             <div>Auth Token: {localStorage.getItem('authToken') ? 'SET' : 'NOT SET'}</div>
+            <div>WebSocket: {connectionState}{latency !== null && ` (${latency} ms round-trip)`}</div>
           </div>
         </div>
 
@@ -141,12 +139,12 @@ export const ConnectionTest = () => {
           </div>
 
           <div className="flex items-center justify-between">
-            <span>Demo Login & Chat</span>
+            <span>Mock Backend Chat</span>
             <div className="flex gap-2">
-              {getStatusBadge('demo')}
+              {getStatusBadge('mock')}
               <Button 
                 size="sm" 
-                onClick={() => runTest('demo', testDemoLogin)}
+                onClick={() => runTest('mock', testMockBackend)}
                 disabled={isLoading}
               >
                 Test
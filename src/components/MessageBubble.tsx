@@ -0,0 +1,128 @@
+import { AlertCircle, Check, CheckCheck, Clock } from 'lucide-react';
+import { Agent } from '@/lib/constants';
+import { Message, MessageStatus } from '@/lib/types';
+
+interface MessageBubbleProps {
+  message: Message;
+  agent: Agent;
+  onRetry?: (message: Message) => void;
+  onEdit?: (message: Message) => void;
+  onDelete?: (message: Message) => void;
+}
+
+const formatTime = (timestamp: Date) => {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+};
+
+const STATUS_LABELS: Record<MessageStatus, string> = {
+  pending: 'Waiting to send',
+  sent: 'Sent',
+  delivered: 'Delivered',
+  failed: 'Not delivered'
+};
+
+const StatusIcon = ({ status }: { status: MessageStatus }) => {
+  const className = 'w-3.5 h-3.5';
+  switch (status) {
+    case 'pending':
+      return <Clock className={className} />;
+    case 'sent':
+      return <Check className={className} />;
+    case 'delivered':
+      return <CheckCheck className={className} />;
+    case 'failed':
+      return <AlertCircle className={`${className} text-red-200`} />;
+  }
+};
+
+// A single chat bubble, including multi-message chain indicators
+export const MessageBubble = ({ message: msg, agent, onRetry, onEdit, onDelete }: MessageBubbleProps) => {
+  const isFailed = msg.role === 'user' && msg.status === 'failed';
+
+  return (
+    <div className={`flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'}`}>
+      <div
+        className={`max-w-sm lg:max-w-lg px-4 py-3 rounded-2xl relative ${isFailed ? 'ring-2 ring-red-400 ' : ''}${
+          msg.role === 'user'
+            ? 'text-white rounded-br-md shadow-md'
+            : msg.isMultiMessage && msg.isAdditional
+            ? 'bg-gray-50 text-gray-800 rounded-bl-md shadow-sm border border-gray-200'
+            : 'bg-white text-gray-800 rounded-bl-md shadow-md border border-gray-100'
+        }`}
+        style={msg.role === 'user' ? { backgroundColor: agent.primaryColor } : undefined}
+      >
+        {/* Multi-message indicator */}
+        {msg.isMultiMessage && (
+          <div className={`text-xs mb-2 flex items-center ${
+            msg.role === 'user' ? 'text-white/80' : 'text-gray-500'
+          }`}>
+            {msg.isFirst && (
+              <>
+                <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: agent.primaryColor }}></span>
+                <span>Message {msg.messageIndex}/{msg.totalMessages}</span>
+              </>
+            )}
+            {msg.isAdditional && (
+              <>
+                <span className="inline-block w-1.5 h-1.5 rounded-full mr-2 opacity-60" style={{ backgroundColor: agent.primaryColor }}></span>
+                <span>{msg.messageIndex}/{msg.totalMessages}</span>
+              </>
+            )}
+          </div>
+        )}
+
+        <p className="text-sm leading-relaxed">{msg.content}</p>
+
+        <div className="flex items-center justify-between mt-2">
+          <p className={`text-xs flex items-center gap-1 ${
+            msg.role === 'user' ? 'text-white/80' : 'text-gray-500'
+          }`}>
+            {formatTime(msg.timestamp)}
+            {msg.role === 'user' && msg.status && (
+              <span title={STATUS_LABELS[msg.status]} aria-label={STATUS_LABELS[msg.status]}>
+                <StatusIcon status={msg.status} />
+              </span>
+            )}
+          </p>
+
+          {/* Multi-message chain indicator */}
+          {msg.isMultiMessage && msg.totalMessages && msg.totalMessages > 1 && (
+            <div className="flex space-x-1">
+              {Array.from({ length: msg.totalMessages }, (_, i) => (
+                <div
+                  key={i}
+                  className={`w-1.5 h-1.5 rounded-full ${
+                    i < (msg.messageIndex || 1) ? '' : 'bg-gray-300'
+                  }`}
+                  style={i < (msg.messageIndex || 1) ? { backgroundColor: agent.primaryColor } : undefined}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {isFailed && (
+        <div className="mt-1 flex items-center gap-2 text-xs text-red-600">
+          <AlertCircle className="w-3.5 h-3.5" />
+          <span>Not delivered</span>
+          {onRetry && (
+            <button onClick={() => onRetry(msg)} className="font-medium underline hover:text-red-700">
+              Tap to retry
+            </button>
+          )}
+          {onEdit && (
+            <button onClick={() => onEdit(msg)} className="hover:text-red-700">
+              Edit
+            </button>
+          )}
+          {onDelete && (
+            <button onClick={() => onDelete(msg)} className="hover:text-red-700">
+              Delete
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,288 @@
+import { useState, useEffect, useLayoutEffect, useMemo, useRef, useCallback } from 'react';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import { format, isSameDay, isToday, isYesterday } from 'date-fns';
+import { ChevronDown } from 'lucide-react';
+import { Skeleton } from '@/components/ui/skeleton';
+import { MessageBubble } from '@/components/MessageBubble';
+import { Agent } from '@/lib/constants';
+import { Message } from '@/lib/types';
+
+interface MessageListProps {
+  messages: Message[];
+  agent: Agent;
+  isTyping: boolean;
+  hasMore: boolean;
+  isLoadingOlder: boolean;
+  onLoadOlder: () => void;
+  onRetryMessage?: (message: Message) => void;
+  onEditMessage?: (message: Message) => void;
+  onDeleteMessage?: (message: Message) => void;
+}
+
+type MessageListRow =
+  | { type: 'date'; key: string; label: string }
+  | { type: 'message'; key: string; message: Message; isChained: boolean };
+
+// Distance from the edge (px) that counts as "at the top" / "at the bottom"
+const SCROLL_THRESHOLD = 80;
+
+const formatDateLabel = (date: Date) => {
+  if (isToday(date)) return 'Today';
+  if (isYesterday(date)) return 'Yesterday';
+  return format(date, 'EEE, d MMM yyyy');
+};
+
+// Flatten messages into rows, inserting a separator whenever the day changes
+const buildRows = (messages: Message[]): MessageListRow[] => {
+  const rows: MessageListRow[] = [];
+  let previousDate: Date | null = null;
+
+  for (const message of messages) {
+    const date = new Date(message.timestamp);
+    if (!previousDate || !isSameDay(previousDate, date)) {
+      rows.push({ type: 'date', key: `date-${format(date, 'yyyy-MM-dd')}`, label: formatDateLabel(date) });
+    }
+    previousDate = date;
+
+    rows.push({
+      type: 'message',
+      key: message.id,
+      message,
+      isChained: !!(message.isMultiMessage && message.isAdditional)
+    });
+  }
+
+  return rows;
+};
+
+// Windowed message renderer: only bubbles near the viewport are mounted
+export const MessageList = ({
+  messages,
+  agent,
+  isTyping,
+  hasMore,
+  isLoadingOlder,
+  onLoadOlder,
+  onRetryMessage,
+  onEditMessage,
+  onDeleteMessage
+}: MessageListProps) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const isNearBottomRef = useRef(true);
+  const lastMessageIdRef = useRef<string | undefined>(undefined);
+  const prependAnchorRef = useRef<{ scrollHeight: number; scrollTop: number; firstMessageId?: string } | null>(null);
+  const [isAtBottom, setIsAtBottom] = useState(true);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const rows = useMemo(() => buildRows(messages), [messages]);
+
+  const virtualizer = useVirtualizer({
+    count: rows.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: (index) => rows[index].type === 'date' ? 40 : 96,
+    // Stable keys keep measured heights attached to the right rows across prepends
+    getItemKey: (index) => rows[index].key,
+    overscan: 8,
+    paddingStart: 8,
+    paddingEnd: 8
+  });
+
+  const scrollToBottom = useCallback(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+
+    el.scrollTop = el.scrollHeight;
+    // Freshly measured bubbles can grow the list right after render; follow them
+    requestAnimationFrame(() => {
+      el.scrollTop = el.scrollHeight;
+    });
+    isNearBottomRef.current = true;
+    setIsAtBottom(true);
+    setUnreadCount(0);
+  }, []);
+
+  const handleScroll = () => {
+    const el = scrollRef.current;
+    if (!el) return;
+
+    const nearBottom = el.scrollHeight - el.scrollTop - el.clientHeight < SCROLL_THRESHOLD;
+    isNearBottomRef.current = nearBottom;
+    setIsAtBottom(nearBottom);
+    if (nearBottom) {
+      setUnreadCount(0);
+    }
+
+    if (el.scrollTop < SCROLL_THRESHOLD && hasMore && !isLoadingOlder) {
+      prependAnchorRef.current = {
+        scrollHeight: el.scrollHeight,
+        scrollTop: el.scrollTop,
+        firstMessageId: messages[0]?.id
+      };
+      onLoadOlder();
+    }
+  };
+
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+
+    // Older history was prepended: keep the same messages under the viewport
+    const anchor = prependAnchorRef.current;
+    if (anchor && messages[0]?.id !== anchor.firstMessageId) {
+      el.scrollTop = el.scrollHeight - anchor.scrollHeight + anchor.scrollTop;
+      prependAnchorRef.current = null;
+      return;
+    }
+
+    const previousLastId = lastMessageIdRef.current;
+    const lastMessage = messages[messages.length - 1];
+    lastMessageIdRef.current = lastMessage?.id;
+
+    // First render of this chat starts at the newest message
+    if (previousLastId === undefined) {
+      scrollToBottom();
+      return;
+    }
+    if (!lastMessage) return;
+
+    // A streamed bubble grew in place: keep it in view while the reader is following along
+    if (lastMessage.id === previousLastId) {
+      if (isNearBottomRef.current) {
+        scrollToBottom();
+      }
+      return;
+    }
+
+    const previousIndex = messages.findIndex(msg => msg.id === previousLastId);
+    const newMessages = previousIndex >= 0 ? messages.slice(previousIndex + 1) : [lastMessage];
+
+    // Follow the conversation when already at the bottom or when the user just sent something
+    if (isNearBottomRef.current || newMessages.some(msg => msg.role === 'user')) {
+      scrollToBottom();
+    } else {
+      setUnreadCount(count => count + newMessages.filter(msg => msg.role === 'assistant').length);
+    }
+  }, [rows, messages, scrollToBottom]);
+
+  useLayoutEffect(() => {
+    if (isTyping && isNearBottomRef.current) {
+      scrollToBottom();
+    }
+  }, [isTyping, scrollToBottom]);
+
+  // A load that returned nothing new leaves no prepend to restore
+  useEffect(() => {
+    if (!isLoadingOlder) {
+      prependAnchorRef.current = null;
+    }
+  }, [isLoadingOlder]);
+
+  const virtualItems = virtualizer.getVirtualItems();
+
+  // Sticky separator: the day of the top-most visible row, once its own separator scrolled away
+  const scrollOffset = virtualizer.scrollOffset ?? 0;
+  const firstVisible = virtualItems.find(item => item.end > scrollOffset);
+  let stickyDate: string | null = null;
+  if (firstVisible) {
+    for (let i = firstVisible.index; i >= 0; i--) {
+      const row = rows[i];
+      if (row.type === 'date') {
+        const start = virtualizer.measurementsCache[i]?.start ?? 0;
+        stickyDate = start < scrollOffset ? row.label : null;
+        break;
+      }
+    }
+  }
+
+  return (
+    <div className="relative flex-1 min-h-0">
+      <div
+        ref={scrollRef}
+        onScroll={handleScroll}
+        className={`h-full overflow-y-auto ${agent.bgGradient}`}
+      >
+        <div className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+          {virtualItems.map((item) => {
+            const row = rows[item.index];
+            return (
+              <div
+                key={item.key}
+                data-index={item.index}
+                ref={virtualizer.measureElement}
+                className="absolute left-0 top-0 w-full px-4"
+                style={{ transform: `translateY(${item.start}px)` }}
+              >
+                {row.type === 'date' ? (
+                  <div className="flex justify-center py-2">
+                    <span className="text-xs text-gray-600 bg-white/80 px-3 py-1 rounded-full shadow-sm">
+                      {row.label}
+                    </span>
+                  </div>
+                ) : (
+                  // Padding rather than margin so the chain spacing is part of the measured height
+                  <div className={row.isChained ? 'pt-1' : 'pt-3'}>
+                    <MessageBubble
+                      message={row.message}
+                      agent={agent}
+                      onRetry={onRetryMessage}
+                      onEdit={onEditMessage}
+                      onDelete={onDeleteMessage}
+                    />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {isTyping && (
+          <div className="flex justify-start px-4 pt-3 pb-4">
+            <div className="bg-white text-gray-800 rounded-2xl rounded-bl-md shadow-md px-4 py-3 border border-gray-100">
+              <div className="flex space-x-1 items-center">
+                <span className="text-xs text-gray-500 mr-2">{agent.shortName} is typing</span>
+                <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"></div>
+                <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.1s' }}></div>
+                <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.2s' }}></div>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {stickyDate && (
+        <div className="pointer-events-none absolute top-2 left-0 right-0 flex justify-center">
+          <span className="text-xs text-gray-600 bg-white/90 px-3 py-1 rounded-full shadow-sm">
+            {stickyDate}
+          </span>
+        </div>
+      )}
+
+      {/* Overlaid so it doesn't shift the virtualized rows while loading */}
+      {isLoadingOlder && (
+        <div className="absolute top-0 left-0 right-0 space-y-2 p-4 bg-white/60 backdrop-blur-sm" aria-label="Loading earlier messages">
+          <p className="text-center text-xs text-gray-500">Loading earlier messages...</p>
+          <Skeleton className="h-10 w-2/3 rounded-2xl bg-white/80" />
+          <Skeleton className="h-8 w-1/2 ml-auto rounded-2xl bg-white/80" />
+        </div>
+      )}
+
+      {!isAtBottom && (
+        <button
+          onClick={scrollToBottom}
+          className="absolute bottom-4 right-4 w-10 h-10 rounded-full bg-white shadow-lg border border-gray-200 flex items-center justify-center text-gray-600 hover:bg-gray-50"
+          title="Jump to latest"
+        >
+          <ChevronDown className="w-5 h-5" />
+          {unreadCount > 0 && (
+            <span
+              className="absolute -top-2 -right-1 min-w-5 h-5 px-1 rounded-full text-[11px] font-semibold text-white flex items-center justify-center"
+              style={{ backgroundColor: agent.primaryColor }}
+            >
+              {unreadCount}
+            </span>
+          )}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import { useState } from 'react';
+import { Bell, BellOff } from 'lucide-react';
+import { Agent } from '@/lib/constants';
+import {
+  getNotificationPermission,
+  isAgentMuted,
+  requestNotificationPermission,
+  setAgentMuted
+} from '@/lib/notifications';
+
+interface NotificationToggleProps {
+  agent: Agent;
+}
+
+// Header button: asks for notification permission first, then mutes or unmutes this agent
+export const NotificationToggle = ({ agent }: NotificationToggleProps) => {
+  const [permission, setPermission] = useState(getNotificationPermission);
+  const [muted, setMuted] = useState(() => isAgentMuted(agent.id));
+
+  if (permission === 'unsupported') return null;
+
+  const handleClick = async () => {
+    if (permission === 'default') {
+      setPermission(await requestNotificationPermission());
+      return;
+    }
+    setMuted(!muted);
+    await setAgentMuted(agent.id, !muted);
+  };
+
+  const title = permission === 'denied'
+    ? 'Notifications are blocked in your browser settings'
+    : permission === 'default'
+      ? 'Notify me about replies'
+      : muted
+        ? `Unmute ${agent.shortName}`
+        : `Mute ${agent.shortName}`;
+  const isOff = permission === 'denied' || (permission === 'granted' && muted);
+
+  return (
+    <button
+      onClick={handleClick}
+      disabled={permission === 'denied'}
+      className="text-white hover:bg-white/20 p-2 rounded-full transition-colors disabled:opacity-50 disabled:hover:bg-transparent"
+      title={title}
+      aria-label={title}
+    >
+      {isOff ? <BellOff className="w-5 h-5" /> : <Bell className="w-5 h-5" />}
+    </button>
+  );
+};
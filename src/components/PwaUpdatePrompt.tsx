@@ -0,0 +1,49 @@
+import { useEffect } from 'react';
+import { useRegisterSW } from 'virtual:pwa-register/react';
+import { toast } from '@/components/ui/sonner';
+
+// Check for a new deployment every hour while the app stays open
+const UPDATE_CHECK_INTERVAL = 60 * 60 * 1000;
+
+// Registers the service worker and lets the user decide when a new version takes over
+export const PwaUpdatePrompt = () => {
+  const {
+    needRefresh: [needRefresh, setNeedRefresh],
+    offlineReady: [offlineReady, setOfflineReady],
+    updateServiceWorker
+  } = useRegisterSW({
+    onRegisteredSW: (_swUrl, registration) => {
+      if (!registration) return;
+      setInterval(() => {
+        if (navigator.onLine) registration.update();
+      }, UPDATE_CHECK_INTERVAL);
+    },
+    onRegisterError: (error) => {
+      console.warn('Service worker registration failed:', error);
+    }
+  });
+
+  useEffect(() => {
+    if (!offlineReady) return;
+    toast('Ready to work offline', {
+      description: 'Your chats will open even without a connection.',
+      onDismiss: () => setOfflineReady(false),
+      onAutoClose: () => setOfflineReady(false)
+    });
+  }, [offlineReady, setOfflineReady]);
+
+  useEffect(() => {
+    if (!needRefresh) return;
+    toast('Update available', {
+      description: 'A new version of Gurukul AI is ready.',
+      duration: Infinity,
+      action: {
+        label: 'Reload',
+        onClick: () => updateServiceWorker(true)
+      },
+      onDismiss: () => setNeedRefresh(false)
+    });
+  }, [needRefresh, setNeedRefresh, updateServiceWorker]);
+
+  return null;
+};
@@ -0,0 +1,109 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act, render, waitFor } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { ReplyNotifier } from './ReplyNotifier';
+import { ChatProvider } from '@/contexts/ChatContext';
+import { chatApi } from '@/lib/api';
+import { tokenStore } from '@/lib/authTokens';
+import { User } from '@/lib/types';
+import { FakeWebSocket } from '@/test/fakeWebSocket';
+
+const { auth } = vi.hoisted(() => ({
+  auth: { user: null as User | null }
+}));
+
+vi.mock('@/contexts/AuthContext', () => ({
+  useAuth: () => ({ user: auth.user })
+}));
+
+vi.mock('@/lib/api', async importOriginal => ({
+  ...await importOriginal<typeof import('@/lib/api')>(),
+  chatApi: {
+    getChats: vi.fn()
+  }
+}));
+
+const testUser: User = {
+  id: 'user-1',
+  email: 'asha@example.com',
+  name: 'Asha',
+  createdAt: new Date('2024-05-01T10:00:00Z'),
+  lastActive: new Date('2024-05-01T10:00:00Z')
+};
+
+class FakeNotification {
+  static permission: NotificationPermission = 'granted';
+  static shown: { title: string; options?: NotificationOptions }[] = [];
+  onclick: (() => void) | null = null;
+
+  constructor(title: string, options?: NotificationOptions) {
+    FakeNotification.shown.push({ title, options });
+  }
+
+  close(): void {}
+}
+
+const app = () => (
+  <MemoryRouter>
+    <ChatProvider>
+      <ReplyNotifier />
+    </ChatProvider>
+  </MemoryRouter>
+);
+
+describe('ReplyNotifier', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+    vi.stubGlobal('Notification', FakeNotification);
+    vi.spyOn(document, 'hidden', 'get').mockReturnValue(true);
+    FakeWebSocket.reset();
+    FakeNotification.shown = [];
+    localStorage.clear();
+    vi.mocked(chatApi.getChats).mockResolvedValue([]);
+    auth.user = null;
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('notifies about a reply that arrives while the tab is hidden after signing in', async () => {
+    // Signed out first, as on a fresh load: ChatProvider disconnects the socket after the notifier subscribed
+    const { rerender } = render(app());
+    auth.user = testUser;
+    tokenStore.setTokens({ token: 'access-1' });
+    rerender(app());
+
+    const socket = FakeWebSocket.latest();
+    act(() => socket.open());
+    await waitFor(() => expect(chatApi.getChats).toHaveBeenCalled());
+
+    act(() => socket.receive({
+      type: 'message',
+      data: {
+        chatId: 'chat-1',
+        content: 'Are you still there?',
+        agentId: 'priya',
+        message: {
+          id: 'msg-1',
+          chatId: 'chat-1',
+          userId: 'ai',
+          agentId: 'priya',
+          content: 'Are you still there?',
+          role: 'assistant',
+          timestamp: new Date().toISOString()
+        }
+      },
+      timestamp: Date.now()
+    }));
+
+    expect(FakeNotification.shown).toEqual([
+      { title: 'Priya', options: expect.objectContaining({ body: 'Are you still there?', tag: 'chat-chat-1' }) }
+    ]);
+  });
+});
@@ -0,0 +1,28 @@
+import { useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { socketService, MessageData } from '@/lib/socket';
+import { getAgentById } from '@/lib/constants';
+import { showReplyNotification } from '@/lib/notifications';
+
+// Notifies about assistant replies that arrive over the socket while the tab is hidden
+export const ReplyNotifier = () => {
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const handleMessage = (data: MessageData) => {
+      if (!document.hidden || data.message?.role !== 'assistant') return;
+
+      const agent = getAgentById(data.message.agentId || data.agentId);
+      if (!agent) return;
+
+      showReplyNotification(agent, data.chatId, data.message.content, () => {
+        navigate(`${agent.route}/${data.chatId}`);
+      });
+    };
+
+    socketService.on('message', handleMessage);
+    return () => socketService.off('message', handleMessage);
+  }, [navigate]);
+
+  return null;
+};
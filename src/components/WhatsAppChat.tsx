@@ -0,0 +1,276 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { useLocation, useNavigate, useParams } from 'react-router-dom';
+import { Plus, Square } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useChat } from '@/contexts/ChatContext';
+import { SidebarTrigger } from '@/components/ui/sidebar';
+import { MessageList } from '@/components/MessageList';
+import { NotificationToggle } from '@/components/NotificationToggle';
+import { Agent } from '@/lib/constants';
+import { ConnectionState, Message } from '@/lib/types';
+
+interface WhatsAppChatProps {
+  agent: Agent;
+}
+
+const CONNECTION_STATUS: Record<ConnectionState, string> = {
+  idle: 'Connecting...',
+  connecting: 'Connecting...',
+  open: 'Online',
+  reconnecting: 'Reconnecting...',
+  failed: 'Offline'
+};
+
+// WhatsApp-style Chat Interface with Backend Integration
+export const WhatsAppChat = ({ agent }: WhatsAppChatProps) => {
+  const [message, setMessage] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { user, logout } = useAuth();
+  const {
+    currentChat,
+    createNewChat,
+    loadChat,
+    resumeLatestChat,
+    loadOlderMessages,
+    sendMessage: sendChatMessage,
+    retryMessage,
+    deleteFailedMessage,
+    stopGeneration,
+    isTyping,
+    isStreaming,
+    isLoadingOlder,
+    error,
+    isDemoMode,
+    connectionState,
+    latency,
+    retryConnection
+  } = useChat();
+  const { chatId } = useParams<{ chatId?: string }>();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const isNewChatRequested = (location.state as { newChat?: boolean } | null)?.newChat === true;
+
+  const isChatReady = !!currentChat && currentChat.chatId === chatId;
+
+  // Open the chat from the URL, otherwise resume the latest one with this agent
+  const initializeChat = async () => {
+    try {
+      if (chatId) {
+        await loadChat(chatId);
+        return;
+      }
+
+      const resumedChatId = isNewChatRequested ? null : await resumeLatestChat(agent.id);
+      const targetChatId = resumedChatId ?? await createNewChat(agent.id);
+      navigate(`${agent.route}/${targetChatId}`, { replace: true });
+    } catch (error) {
+      console.error('Failed to initialize chat:', error);
+    }
+  };
+
+  // Read through refs so only a new user or route starts initializing, not every change of
+  // the context callbacks or of the open chat
+  const initializeChatRef = useRef(initializeChat);
+  initializeChatRef.current = initializeChat;
+  const isChatReadyRef = useRef(isChatReady);
+  isChatReadyRef.current = isChatReady;
+
+  useEffect(() => {
+    if (!user || isChatReadyRef.current) return;
+    initializeChatRef.current();
+  }, [user, agent.id, chatId, isNewChatRequested]);
+
+  const startNewChat = () => {
+    navigate(agent.route, { state: { newChat: true } });
+  };
+
+  const sendMessage = async () => {
+    if (!message.trim() || !isChatReady || isSending) return;
+
+    const messageText = message.trim();
+    setMessage('');
+    setIsSending(true);
+
+    try {
+      await sendChatMessage(messageText, agent.id, currentChat.chatId);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  // Move a failed message back into the input so it can be corrected and sent again
+  const editFailedMessage = (failed: Message) => {
+    deleteFailedMessage(failed.id);
+    setMessage(failed.content);
+    inputRef.current?.focus();
+  };
+
+  // Welcome message shown only for chats with no history at all
+  const messages = useMemo<Message[]>(() => {
+    if (!isChatReady) return [];
+    if (currentChat.messages.length > 0 || currentChat.hasMore) return currentChat.messages;
+
+    return [{
+      id: `welcome-${currentChat.chatId}`,
+      chatId: currentChat.chatId,
+      userId: 'ai',
+      agentId: agent.id,
+      content: `Hello! I'm ${agent.name}, ${agent.description.charAt(0).toLowerCase()}${agent.description.slice(1)}. I'm here to chat with you about anything on your mind. How are you doing today?`,
+      role: 'assistant',
+      timestamp: new Date()
+    }];
+  }, [isChatReady, currentChat, agent]);
+
+  const handleLogout = async () => {
+    try {
+      await logout();
+      navigate('/');
+    } catch (error) {
+      console.error('Logout failed:', error);
+    }
+  };
+
+  if (!isChatReady) {
+    return (
+      <div className={`h-screen ${agent.bgGradient} flex items-center justify-center`}>
+        <div className="text-center">
+          {error ? (
+            <>
+              <p className="text-red-600 mb-4">{error}</p>
+              <div className="flex gap-2 justify-center">
+                <button
+                  onClick={initializeChat}
+                  className="text-white px-4 py-2 rounded-full hover:opacity-90 transition-opacity"
+                  style={{ backgroundColor: agent.primaryColor }}
+                >
+                  Try again
+                </button>
+                <button
+                  onClick={startNewChat}
+                  className="bg-white text-gray-700 px-4 py-2 rounded-full border border-gray-300 hover:bg-gray-50 transition-colors"
+                >
+                  New chat
+                </button>
+              </div>
+            </>
+          ) : (
+            <>
+              <div
+                className="animate-spin rounded-full h-8 w-8 border-b-2 mx-auto mb-4"
+                style={{ borderColor: agent.primaryColor }}
+              ></div>
+              <p className="text-gray-600">Connecting to {agent.name}...</p>
+            </>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-screen bg-gray-100 flex flex-col">
+      {/* WhatsApp Header */}
+      <div className={`bg-gradient-to-r ${agent.gradientFrom} ${agent.gradientTo} text-white p-4 flex items-center justify-between shadow-lg`}>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={() => navigate('/')}
+            className="text-white hover:bg-white/20 p-2 rounded-full transition-colors"
+          >
+            ←
+          </button>
+          <SidebarTrigger className="text-white hover:bg-white/20 hover:text-white" />
+          <div className="w-10 h-10 bg-white/20 rounded-full flex items-center justify-center text-lg">
+            {agent.icon}
+          </div>
+          <div>
+            <h1 className="font-semibold">{agent.name}</h1>
+            <p
+              className="text-xs text-white/80"
+              title={latency !== null ? `Round-trip latency: ${latency} ms` : undefined}
+            >
+              {isTyping ? 'Typing...' : isDemoMode ? 'Demo Mode' : CONNECTION_STATUS[connectionState]}
+              {!isTyping && !isDemoMode && (connectionState === 'reconnecting' || connectionState === 'failed') && (
+                <button onClick={retryConnection} className="ml-2 underline hover:text-white">
+                  Retry now
+                </button>
+              )}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-1">
+          <NotificationToggle key={agent.id} agent={agent} />
+          <button
+            onClick={startNewChat}
+            className="text-white hover:bg-white/20 p-2 rounded-full transition-colors"
+            title="New chat"
+          >
+            <Plus className="w-5 h-5" />
+          </button>
+          <button
+            onClick={handleLogout}
+            className="text-white hover:bg-white/20 p-2 rounded-full transition-colors text-sm"
+            title="Logout"
+          >
+            🚪
+          </button>
+        </div>
+      </div>
+
+      {/* Messages Area */}
+      <MessageList
+        key={currentChat.chatId}
+        messages={messages}
+        agent={agent}
+        isTyping={isTyping}
+        hasMore={!!currentChat.hasMore}
+        isLoadingOlder={isLoadingOlder}
+        onLoadOlder={loadOlderMessages}
+        onRetryMessage={(failed) => retryMessage(failed.id)}
+        onEditMessage={editFailedMessage}
+        onDeleteMessage={(failed) => deleteFailedMessage(failed.id)}
+      />
+
+      {error && (
+        <div className="bg-red-50 border-t border-red-200 px-4 py-2 text-xs text-red-700">
+          {error}
+        </div>
+      )}
+
+      {/* Input Area */}
+      <div className="bg-white border-t border-gray-200 p-4 flex items-center space-x-3">
+        <input
+          ref={inputRef}
+          type="text"
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          onKeyPress={(e) => e.key === 'Enter' && !isSending && sendMessage()}
+          placeholder="Type a message..."
+          disabled={isSending}
+          className="flex-1 bg-gray-100 border-0 rounded-full px-4 py-3 focus:outline-none focus:ring-2 focus:ring-gray-300 disabled:opacity-50 text-sm"
+        />
+        {isStreaming ? (
+          <button
+            onClick={stopGeneration}
+            className="text-white p-3 rounded-full hover:opacity-90 transition-opacity shadow-md"
+            style={{ backgroundColor: agent.primaryColor }}
+            title="Stop generating"
+          >
+            <Square className="w-5 h-5" fill="currentColor" />
+          </button>
+        ) : (
+          <button
+            onClick={sendMessage}
+            disabled={!message.trim() || isSending}
+            className="text-white p-3 rounded-full hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed shadow-md"
+            style={{ backgroundColor: agent.primaryColor }}
+          >
+            <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
+              <path d="M10.894 2.553a1 1 0 00-1.788 0l-7 14a1 1 0 001.169 1.409l5-1.429A1 1 0 009 15.571V11a1 1 0 112 0v4.571a1 1 0 00.725.962l5 1.428a1 1 0 001.17-1.408l-7-14z" />
+            </svg>
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,150 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ReactNode } from 'react';
+import { renderHook, waitFor } from '@testing-library/react';
+import { BrowserRouter } from 'react-router-dom';
+import { AuthProvider, useAuth } from './AuthContext';
+import { beginOAuthLogin } from '@/lib/oauth';
+import { tokenStore } from '@/lib/authTokens';
+import { userStore } from '@/lib/user';
+
+const wrapper = ({ children }: { children: ReactNode }) => (
+  <BrowserRouter>
+    <AuthProvider>{children}</AuthProvider>
+  </BrowserRouter>
+);
+
+const jsonResponse = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const googleUser = {
+  id: 'user-1',
+  email: 'asha@example.com',
+  name: 'Asha',
+  createdAt: '2024-05-01T10:00:00.000Z',
+  lastActive: '2024-05-02T08:30:00.000Z'
+};
+
+// Start a login from `returnTo` and come back from Google with `params`
+const returnFromGoogle = async (returnTo: string, params: (state: string) => Record<string, string>) => {
+  const authUrl = new URL(await beginOAuthLogin('client-id', 'http://localhost:5173/', returnTo));
+  const state = authUrl.searchParams.get('state')!;
+  window.history.replaceState(null, '', `/?${new URLSearchParams(params(state))}`);
+  return authUrl;
+};
+
+describe('AuthProvider OAuth callback', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    localStorage.clear();
+    sessionStorage.clear();
+    window.history.replaceState(null, '', '/');
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('exchanges the code with its PKCE verifier and restores the page login started from', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(200, { user: googleUser, token: 'access-1', refreshToken: 'refresh-1' }));
+    await returnFromGoogle('/career/chat-7', state => ({ code: 'auth-code', state }));
+
+    const { result } = renderHook(() => useAuth(), { wrapper });
+
+    await waitFor(() => expect(result.current.user?.id).toBe('user-1'));
+    expect(result.current.isLoading).toBe(false);
+    expect(window.location.pathname).toBe('/career/chat-7');
+    expect(window.location.search).toBe('');
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(String(url)).toMatch(/\/auth\/google\/code$/);
+    const body = JSON.parse((init as RequestInit).body as string);
+    expect(body).toMatchObject({ code: 'auth-code', redirectUri: expect.any(String) });
+    expect(body.codeVerifier).toMatch(/^[A-Za-z0-9_-]{43,128}$/);
+
+    expect(tokenStore.getAccessToken()).toBe('access-1');
+    expect(tokenStore.getRefreshToken()).toBe('refresh-1');
+    expect(userStore.get()?.email).toBe('asha@example.com');
+  });
+
+  it('rejects a callback whose state does not match the pending login', async () => {
+    await returnFromGoogle('/', () => ({ code: 'auth-code', state: 'forged' }));
+
+    const { result } = renderHook(() => useAuth(), { wrapper });
+
+    await waitFor(() => expect(result.current.oauthError?.code).toBe('state_mismatch'));
+    expect(result.current.user).toBeNull();
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(tokenStore.getAccessToken()).toBeNull();
+  });
+
+  it('reports an error sent back by Google', async () => {
+    await returnFromGoogle('/', state => ({ error: 'access_denied', state }));
+
+    const { result } = renderHook(() => useAuth(), { wrapper });
+
+    await waitFor(() => expect(result.current.oauthError?.code).toBe('access_denied'));
+    expect(result.current.isLoading).toBe(false);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('reports a failed code exchange', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(400, { error: 'invalid_grant' }));
+    await returnFromGoogle('/', state => ({ code: 'expired-code', state }));
+
+    const { result } = renderHook(() => useAuth(), { wrapper });
+
+    await waitFor(() => expect(result.current.oauthError?.code).toBe('exchange_failed'));
+    expect(result.current.user).toBeNull();
+    expect(tokenStore.getAccessToken()).toBeNull();
+  });
+});
+
+describe('AuthProvider session check', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    localStorage.clear();
+    window.history.replaceState(null, '', '/');
+    userStore.set({ ...googleUser, createdAt: new Date(googleUser.createdAt), lastActive: new Date(googleUser.lastActive) });
+    tokenStore.setTokens({ token: 'access-1', refreshToken: 'refresh-1' });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('signs out when /auth/me answers with something that is not a user', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(200, { success: true, data: { ...googleUser, email: 'not-an-email' } }));
+
+    const { result } = renderHook(() => useAuth(), { wrapper });
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(result.current.user).toBeNull();
+    expect(tokenStore.getAccessToken()).toBeNull();
+    expect(userStore.get()).toBeNull();
+  });
+
+  it('keeps the stored user while the backend is failing', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(503, { error: 'Service unavailable' }));
+
+    const { result } = renderHook(() => useAuth(), { wrapper });
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(result.current.user?.email).toBe('asha@example.com');
+    expect(tokenStore.getAccessToken()).toBe('access-1');
+  });
+});
@@ -1,10 +1,20 @@
 'use client';
 
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
-import { User, AuthContextType } from '@/lib/types';
+import { useNavigate } from 'react-router-dom';
+import { User, AuthContextType, OAuthError } from '@/lib/types';
+import { beginOAuthLogin, createOAuthError, readOAuthCallback, OAuthCallback } from '@/lib/oauth';
+import { chatApi, ApiError, NetworkError } from '@/lib/api';
+import { parseUser, userStore, USER_STORAGE_KEY } from '@/lib/user';
+import { BACKEND_CONFIG } from '@/lib/constants';
+import { tokenStore, onSessionExpired, revokeSession } from '@/lib/authTokens';
+import { clearLocalSession, broadcastLogout, onRemoteLogout } from '@/lib/session';
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+const getRedirectUri = (): string =>
+  import.meta.env.VITE_GOOGLE_REDIRECT_URI || 'http://localhost:5173/';
+
 export const useAuth = () => {
   const context = useContext(AuthContext);
   if (context === undefined) {
@@ -21,6 +31,8 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [oauthError, setOAuthError] = useState<OAuthError | null>(null);
+  const navigate = useNavigate();
 
   // Debug logging for user state changes
   useEffect(() => {
@@ -28,85 +40,108 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
   }, [user]);
 
   useEffect(() => {
-    // Check for existing session and handle OAuth callback
-    checkAuthStatus();
-    handleOAuthCallback();
+    // A redirect back from Google starts a new session; otherwise restore the stored one
+    const callback = readOAuthCallback(window.location.search);
+    if (callback.type === 'none') {
+      checkAuthStatus();
+    } else {
+      handleOAuthCallback(callback);
+    }
   }, []);
 
+  // The refresh token was rejected, so nothing can be loaded until the user signs in again
+  useEffect(() => onSessionExpired(() => {
+    setUser(null);
+    clearLocalSession();
+    setError('Your session has expired. Please sign in again.');
+  }), []);
+
+  // Another tab signed out and already told the server
+  useEffect(() => onRemoteLogout(() => {
+    setUser(null);
+    clearLocalSession();
+  }), []);
+
+  // Restore the stored session, but only render it once the backend confirms the token
   const checkAuthStatus = async () => {
     try {
-      // Check if user is stored in localStorage
-      const storedUser = localStorage.getItem('gurukul-user');
-      if (storedUser) {
-        const userData = JSON.parse(storedUser);
-        setUser(userData);
+      const storedUser = userStore.get();
+      const token = tokenStore.getAccessToken();
+      if (!storedUser || !token) {
+        // Missing, tampered or half-written session: start from a clean slate
+        if (localStorage.getItem(USER_STORAGE_KEY) || token) {
+          await clearLocalSession();
+        }
+        return;
       }
+
+      const currentUser = await chatApi.getCurrentUser();
+      userStore.set(currentUser);
+      setUser(currentUser);
     } catch (error) {
-      console.error('Auth check failed:', error);
+      if (error instanceof NetworkError || (error instanceof ApiError && error.status >= 500)) {
+        // Offline or backend trouble: keep the stored session so cached chats stay available
+        console.warn('Could not validate session, using stored user:', error);
+        setUser(userStore.get());
+      } else {
+        // Rejected token, or an answer that is not a user: sign in again
+        console.warn('Stored session is no longer valid:', error);
+        await clearLocalSession();
+        setUser(null);
+      }
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handleOAuthCallback = async () => {
-    // Check if we're returning from OAuth (URL contains authorization code)
-    const urlParams = new URLSearchParams(window.location.search);
-    const code = urlParams.get('code');
-    const error = urlParams.get('error');
+  const handleOAuthCallback = async (callback: Exclude<OAuthCallback, { type: 'none' }>) => {
+    // Drop code and state from the URL and go back to where login started
+    navigate(callback.returnTo, { replace: true });
 
-    if (error) {
-      console.error('OAuth error:', error);
-      // Clean up URL
-      window.history.replaceState({}, document.title, window.location.pathname);
+    if (callback.type === 'error') {
+      console.error('OAuth error:', callback.error.code);
+      setOAuthError(callback.error);
+      setIsLoading(false);
       return;
     }
 
-    if (code) {
-      try {
-        setIsLoading(true);
-        
-        const apiUrl = `${import.meta.env.VITE_API_BASE_URL}/auth/google/code`;
-        
-        // Send the authorization code to backend
-        const response = await fetch(apiUrl, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ code })
-        });
-
-        if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
+    try {
+      setIsLoading(true);
 
-        const data = await response.json();
-        console.log('user login data', data);
-        
-        if (data) {
-          const userData: User = {
-            id: data.user.id,
-            email: data.user.email,
-            name: data.user.name,
-            picture: data.user.picture,
-            createdAt: new Date(data.user.createdAt),
-            lastActive: new Date(data.user.lastActive)
-          };
-          
-          setUser(userData);
-          localStorage.setItem('gurukul-user', JSON.stringify(userData));
-          localStorage.setItem('authToken', data.token);
-          
-          // Clean up URL by removing the code parameter
-          window.history.replaceState({}, document.title, window.location.pathname);
-        } else {
-          throw new Error(data.error || 'Authentication failed');
-        }
-      } catch (error) {
-        console.error('OAuth callback failed:', error);
-        // Clean up URL
-        window.history.replaceState({}, document.title, window.location.pathname);
-      } finally {
-        setIsLoading(false);
+      const apiUrl = `${import.meta.env.VITE_API_BASE_URL}/auth/google/code`;
+
+      // Send the authorization code with the PKCE verifier; the backend needs both (and the
+      // same redirect URI) to redeem the code with Google
+      const response = await fetch(apiUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          code: callback.code,
+          codeVerifier: callback.codeVerifier,
+          redirectUri: getRedirectUri()
+        })
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
       }
+
+      const data = await response.json();
+      console.log('user login data', data);
+
+      const userData = parseUser(data?.user);
+      if (userData && data.token) {
+        setUser(userData);
+        userStore.set(userData);
+        tokenStore.setTokens({ token: data.token, refreshToken: data.refreshToken });
+      } else {
+        throw new Error(data?.error || 'Authentication failed');
+      }
+    } catch (error) {
+      console.error('OAuth callback failed:', error);
+      setOAuthError(createOAuthError('exchange_failed'));
+    } finally {
+      setIsLoading(false);
     }
   };
 
@@ -115,9 +150,12 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
       setIsLoading(true);
       console.log('Starting Google OAuth 2.0 login process...');
       
+      setError(null);
+      setOAuthError(null);
+      
       // Get configuration from environment variables
       const clientId = import.meta.env.VITE_GOOGLE_CLIENT_ID;
-      const redirectUri = import.meta.env.VITE_GOOGLE_REDIRECT_URI || 'http://localhost:5173/';
+      const redirectUri = getRedirectUri();
       
       if (!clientId) {
         throw new Error('Google Client ID not configured');
@@ -125,16 +163,11 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
       
       console.log('Using redirect URI:', redirectUri);
       
-      // Construct Google OAuth URL
-      const googleAuthUrl = `https://accounts.google.com/o/oauth2/v2/auth?` +
-        `client_id=${encodeURIComponent(clientId)}&` +
-        `redirect_uri=${encodeURIComponent(redirectUri)}&` +
-        `response_type=code&` +
-        `scope=${encodeURIComponent('openid email profile')}&` +
-        `access_type=offline&` +
-        `prompt=consent`;
+      // Construct Google OAuth URL; the current route is restored after the callback
+      const returnTo = `${window.location.pathname}${window.location.search}`;
+      const googleAuthUrl = await beginOAuthLogin(clientId, redirectUri, returnTo);
       
-      console.log('Redirecting to Google OAuth:', googleAuthUrl);
+      console.log('Redirecting to Google OAuth');
       
       // Redirect to Google OAuth
       window.location.href = googleAuthUrl;
@@ -148,33 +181,33 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     }
   };
 
-  const demoLogin = async () => {
-    // Demo login for development - keeping this as fallback but not using by default
+  // Guests skip Google and talk to the in-browser mock backend (see mockBackend.ts)
+  const loginAsGuest = async () => {
     const userData: User = {
-      id: 'demo-user-' + Date.now(),
-      email: 'demo@gurukul.ai',
-      name: 'Demo User',
-      picture: 'https://via.placeholder.com/40',
+      id: `guest-${Date.now()}`,
+      email: 'guest@gurukul.ai',
+      name: 'Guest',
       createdAt: new Date(),
       lastActive: new Date()
     };
-    
-    // Create a demo auth token for API calls
-    const demoToken = `demo-token-${Date.now()}`;
-    
+
+    setError(null);
+    setOAuthError(null);
+    userStore.set(userData);
+    tokenStore.setTokens({ token: `${BACKEND_CONFIG.GUEST_TOKEN_PREFIX}${Date.now()}` });
     setUser(userData);
-    localStorage.setItem('gurukul-user', JSON.stringify(userData));
-    localStorage.setItem('authToken', demoToken);
-    console.log('Demo login successful:', userData);
+    console.log('Guest login successful:', userData);
   };
 
   const logout = async () => {
     try {
       setIsLoading(true);
-      
+
+      // Revoke first: it needs the tokens that clearLocalSession removes
+      await revokeSession();
+      await clearLocalSession();
+      broadcastLogout();
       setUser(null);
-      localStorage.removeItem('gurukul-user');
-      
     } catch (error) {
       console.error('Logout failed:', error);
       throw error;
@@ -187,7 +220,10 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     user,
     isLoading,
     error,
+    oauthError,
+    dismissOAuthError: () => setOAuthError(null),
     login,
+    loginAsGuest,
     logout
   };
 
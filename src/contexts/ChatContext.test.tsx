@@ -0,0 +1,298 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ReactNode } from 'react';
+import { act, cleanup, renderHook, waitFor } from '@testing-library/react';
+import { ChatProvider, useChat } from './ChatContext';
+import { chatApi, ApiError, NetworkError } from '@/lib/api';
+import { tokenStore } from '@/lib/authTokens';
+import { AssistantReply, Message, StreamEvent, User } from '@/lib/types';
+import { FakeWebSocket } from '@/test/fakeWebSocket';
+import { CHAT_CONFIG } from '@/lib/constants';
+
+const { testUser } = vi.hoisted(() => ({
+  testUser: {
+    id: 'user-1',
+    email: 'asha@example.com',
+    name: 'Asha',
+    createdAt: new Date('2024-05-01T10:00:00Z'),
+    lastActive: new Date('2024-05-01T10:00:00Z')
+  }
+}));
+
+vi.mock('./AuthContext', () => ({
+  useAuth: () => ({ user: testUser as User })
+}));
+
+vi.mock('@/lib/api', async importOriginal => ({
+  ...await importOriginal<typeof import('@/lib/api')>(),
+  chatApi: {
+    getChats: vi.fn(),
+    getMessages: vi.fn(),
+    markAsRead: vi.fn(),
+    sendMessage: vi.fn(),
+    sendMessageMulti: vi.fn(),
+    sendMessageStream: vi.fn()
+  }
+}));
+
+// Reveal assistant replies without the simulated typing pauses; a small in-memory cap for the trimming tests
+vi.mock('@/lib/constants', async importOriginal => {
+  const actual = await importOriginal<typeof import('@/lib/constants')>();
+  return {
+    ...actual,
+    CHAT_CONFIG: {
+      ...actual.CHAT_CONFIG,
+      TYPING_DELAY_PER_CHAR: 0,
+      MULTI_MESSAGE_GAP: 0,
+      STREAMING_ENABLED: false,
+      MAX_MESSAGES_IN_MEMORY: 4
+    }
+  };
+});
+
+const wrapper = ({ children }: { children: ReactNode }) => <ChatProvider>{children}</ChatProvider>;
+
+const assistantReply = (...contents: string[]): AssistantReply => ({
+  messages: contents.map((content, i): Message => ({
+    id: `reply-${i}`,
+    chatId: 'chat-1',
+    userId: 'ai',
+    agentId: 'priya',
+    content,
+    role: 'assistant',
+    timestamp: new Date()
+  })),
+  isMultiMessage: contents.length > 1,
+  totalMessages: contents.length
+});
+
+const historyMessage = (n: number): Message => ({
+  id: `msg-${n}`,
+  chatId: 'chat-1',
+  userId: n % 2 ? 'user-1' : 'ai',
+  agentId: 'priya',
+  content: `Message ${n}`,
+  role: n % 2 ? 'user' : 'assistant',
+  timestamp: new Date(Date.UTC(2024, 4, 1, 10, n))
+});
+
+const deferred = <T,>() => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(res => {
+    resolve = res;
+  });
+  return { promise, resolve };
+};
+
+const renderChat = async () => {
+  const hook = renderHook(() => useChat(), { wrapper });
+  await act(() => hook.result.current.loadChat('chat-1'));
+  return hook;
+};
+
+describe('ChatProvider', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+    FakeWebSocket.reset();
+    localStorage.clear();
+    vi.mocked(chatApi.getChats).mockResolvedValue([]);
+    vi.mocked(chatApi.getMessages).mockResolvedValue({ messages: [], hasMore: false, total: 0 });
+    vi.mocked(chatApi.markAsRead).mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    // Unmounting disconnects the shared socket service, dropping frames a test left queued
+    cleanup();
+    CHAT_CONFIG.STREAMING_ENABLED = false;
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('shows the user message right away and adds the replies once they arrive', async () => {
+    const reply = deferred<AssistantReply>();
+    vi.mocked(chatApi.sendMessageMulti).mockReturnValue(reply.promise);
+    const { result } = await renderChat();
+
+    let sending!: Promise<void>;
+    act(() => {
+      sending = result.current.sendMessage('Hello', 'priya');
+    });
+
+    await waitFor(() => expect(result.current.currentChat?.messages).toHaveLength(1));
+    expect(result.current.currentChat?.messages[0]).toMatchObject({ content: 'Hello', role: 'user', status: 'sent' });
+    expect(result.current.currentChat?.messages[0].id).toMatch(/^temp-/);
+
+    await act(async () => {
+      reply.resolve(assistantReply('Hi!', 'How was your day?'));
+      await sending;
+    });
+
+    expect(result.current.currentChat?.messages.map(message => message.content))
+      .toEqual(['Hello', 'Hi!', 'How was your day?']);
+    expect(result.current.currentChat?.messages[0].status).toBe('delivered');
+    expect(result.current.isTyping).toBe(false);
+  });
+
+  it('keeps a message that could not be sent as failed until it is retried', async () => {
+    vi.mocked(chatApi.sendMessageMulti).mockRejectedValueOnce(new ApiError(500, 'Agent crashed'));
+    const { result } = await renderChat();
+
+    await act(() => result.current.sendMessage('Hello', 'priya'));
+
+    const [failed] = result.current.currentChat!.messages;
+    expect(failed.status).toBe('failed');
+    expect(result.current.error).toBe('Failed to send message: Agent crashed');
+    // The server may have stored the message already, so it is not sent a second way
+    expect(chatApi.sendMessage).not.toHaveBeenCalled();
+
+    vi.mocked(chatApi.sendMessageMulti).mockResolvedValueOnce(assistantReply('Sorry, I am back'));
+    await act(() => result.current.retryMessage(failed.id));
+
+    expect(result.current.error).toBeNull();
+    expect(result.current.currentChat?.messages.map(message => [message.content, message.status]))
+      .toEqual([['Hello', 'delivered'], ['Sorry, I am back', undefined]]);
+  });
+
+  it('falls back to the single message endpoint when the server has no batch endpoint', async () => {
+    vi.mocked(chatApi.sendMessageMulti).mockRejectedValue(new ApiError(404, 'Not found'));
+    vi.mocked(chatApi.sendMessage).mockResolvedValue(assistantReply('Hi!'));
+    const { result } = await renderChat();
+
+    await act(() => result.current.sendMessage('Hello', 'priya'));
+
+    expect(chatApi.sendMessage).toHaveBeenCalledWith('chat-1', 'Hello', 'priya');
+    expect(result.current.currentChat?.messages.map(message => message.content)).toEqual(['Hello', 'Hi!']);
+  });
+
+  it('queues a message only when the request never got through', async () => {
+    vi.mocked(chatApi.sendMessageMulti).mockRejectedValue(new NetworkError('Failed to fetch'));
+    const { result } = await renderChat();
+
+    await act(() => result.current.sendMessage('Hello', 'priya'));
+    expect(result.current.currentChat?.messages[0].status).toBe('pending');
+
+    // A bug in the send path must not pass for a network problem
+    const bug = new TypeError("Cannot read properties of undefined (reading 'id')");
+    vi.mocked(chatApi.sendMessageMulti).mockRejectedValue(bug);
+    await act(() => result.current.sendMessage('Still there?', 'priya'));
+    expect(result.current.currentChat?.messages[1].status).toBe('failed');
+  });
+
+  it('ticks a streamed message only once the stream answers', async () => {
+    CHAT_CONFIG.STREAMING_ENABLED = true;
+    let onEvent!: (event: StreamEvent) => void;
+    let onComplete!: () => void;
+    vi.mocked(chatApi.sendMessageStream).mockImplementation((_chatId, _content, _agentId, onMessage, complete) => {
+      onEvent = onMessage;
+      onComplete = complete;
+      return new Promise<void>(() => {});
+    });
+    const { result } = await renderChat();
+
+    let sending!: Promise<void>;
+    act(() => {
+      sending = result.current.sendMessage('Hello', 'priya');
+    });
+    await waitFor(() => expect(chatApi.sendMessageStream).toHaveBeenCalled());
+    expect(result.current.currentChat?.messages[0].status).toBe('sent');
+
+    act(() => onEvent({ type: 'connected' }));
+    expect(result.current.currentChat?.messages[0].status).toBe('delivered');
+
+    await act(async () => {
+      onComplete();
+      await sending;
+    });
+  });
+
+  it('marks a message failed when the stream request is refused', async () => {
+    CHAT_CONFIG.STREAMING_ENABLED = true;
+    vi.mocked(chatApi.sendMessageStream).mockRejectedValue(new ApiError(500, 'Agent crashed'));
+    const { result } = await renderChat();
+
+    await act(() => result.current.sendMessage('Hello', 'priya'));
+
+    expect(result.current.currentChat?.messages[0].status).toBe('failed');
+  });
+
+  it('keeps history paged back in when a new message arrives', async () => {
+    vi.mocked(chatApi.getMessages)
+      .mockResolvedValueOnce({ messages: [5, 6, 7, 8].map(historyMessage), hasMore: true, total: 8 })
+      .mockResolvedValueOnce({ messages: [1, 2, 3, 4].map(historyMessage), hasMore: false, total: 8 });
+    vi.mocked(chatApi.sendMessageMulti).mockResolvedValue(assistantReply('Hi!'));
+    const { result } = await renderChat();
+
+    await act(() => result.current.loadOlderMessages());
+    expect(result.current.currentChat?.messages).toHaveLength(8);
+
+    await act(() => result.current.sendMessage('Hello', 'priya'));
+
+    const contents = result.current.currentChat!.messages.map(message => message.content);
+    expect(contents).toHaveLength(10);
+    expect(contents[0]).toBe('Message 1');
+    expect(contents.slice(-2)).toEqual(['Hello', 'Hi!']);
+  });
+
+  it('trims the oldest messages beyond the in-memory cap of the latest page', async () => {
+    vi.mocked(chatApi.getMessages).mockResolvedValueOnce({ messages: [1, 2, 3].map(historyMessage), hasMore: false, total: 3 });
+    vi.mocked(chatApi.sendMessageMulti).mockResolvedValue(assistantReply('Hi!'));
+    const { result } = await renderChat();
+
+    await act(() => result.current.sendMessage('Hello', 'priya'));
+
+    expect(result.current.currentChat?.messages.map(message => message.content))
+      .toEqual(['Message 2', 'Message 3', 'Hello', 'Hi!']);
+    expect(result.current.currentChat?.hasMore).toBe(true);
+  });
+
+  it('tells a failed chat lookup apart from an agent without chats', async () => {
+    const { result } = renderHook(() => useChat(), { wrapper });
+
+    let resumed: string | null = 'unset';
+    await act(async () => {
+      resumed = await result.current.resumeLatestChat('priya');
+    });
+    expect(resumed).toBeNull();
+
+    vi.mocked(chatApi.getChats).mockRejectedValue(new ApiError(503, 'Service unavailable'));
+    let lookupError: unknown;
+    await act(async () => {
+      await result.current.resumeLatestChat('priya').catch(err => {
+        lookupError = err;
+      });
+    });
+    expect(lookupError).toBeInstanceOf(ApiError);
+    expect(result.current.error).toBe('Failed to load chats: Service unavailable');
+  });
+
+  it('replaces the optimistic message with the copy the socket echoes back', async () => {
+    tokenStore.setTokens({ token: 'access-1' });
+    const { result } = await renderChat();
+    const socket = FakeWebSocket.latest();
+    act(() => socket.open());
+    await waitFor(() => expect(result.current.isConnected).toBe(true));
+
+    await act(() => result.current.sendMessage('Hello', 'priya'));
+    const [sent] = socket.frames('message');
+    const tempId = sent.messageId!;
+    expect(result.current.currentChat?.messages[0]).toMatchObject({ id: tempId, status: 'sent' });
+
+    act(() => socket.receive({
+      type: 'message',
+      data: {
+        chatId: 'chat-1',
+        content: 'Hello',
+        agentId: 'priya',
+        messageId: tempId,
+        message: { ...sent.data, id: 'msg-1', userId: testUser.id, role: 'user', timestamp: new Date().toISOString() }
+      },
+      timestamp: Date.now()
+    }));
+
+    expect(result.current.currentChat?.messages).toHaveLength(1);
+    expect(result.current.currentChat?.messages[0]).toMatchObject({ id: 'msg-1', status: 'delivered' });
+  });
+});
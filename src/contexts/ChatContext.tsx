@@ -1,11 +1,15 @@
 'use client';
 
 import { createContext, useContext, useState, ReactNode, useCallback, useEffect, useRef } from 'react';
-import { ChatContextType, ChatSession, Chat, Message } from '@/lib/types';
+import { ChatContextType, ChatSession, Chat, Message, MessageStatus, StreamMessageData, ConnectionState } from '@/lib/types';
 import { CHAT_CONFIG } from '@/lib/constants';
 import { useAuth } from './AuthContext';
-import { chatApi, ApiError } from '@/lib/api';
-import { socketService, TypingEvent, ReadReceipt, MessageData, ChatUpdate, ErrorData } from '@/lib/socket';
+import { chatApi, ApiError, NetworkError, MalformedReplyError } from '@/lib/api';
+import { socketService, TypingEvent, ReadReceipt, MessageData, ChatUpdate, ErrorData, MessageStatusUpdate } from '@/lib/socket';
+import { outbox, OutboxEntry } from '@/lib/outbox';
+import { chatCache, mergeChats } from '@/lib/chatCache';
+import { tokenStore } from '@/lib/authTokens';
+import { isMockBackendActive } from '@/lib/mockBackend';
 
 const ChatContext = createContext<ChatContextType | undefined>(undefined);
 
@@ -21,6 +25,38 @@ interface ChatProviderProps {
   children: ReactNode;
 }
 
+const sortByTimestamp = (messages: Message[]): Message[] =>
+  [...messages].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+// Messages still waiting in the outbox are shown as the user's own, with their delivery state
+const outboxEntryToMessage = (entry: OutboxEntry, userId: string): Message => ({
+  id: entry.messageId,
+  chatId: entry.chatId,
+  userId,
+  agentId: entry.agentId,
+  content: entry.content,
+  role: 'user',
+  timestamp: new Date(entry.createdAt),
+  status: entry.status
+});
+
+// Only server-confirmed messages are cached
+const isConfirmedMessage = (message: Message) =>
+  !message.id.startsWith('temp-') && !message.id.startsWith('stream-') && !message.id.startsWith('welcome-');
+
+// Stale chats beyond the open one whose latest page is refreshed in the background
+const MAX_BACKGROUND_REFRESHES = 5;
+
+// Responses meaning the server has no such endpoint (streaming, multi-message)
+const ENDPOINT_UNAVAILABLE_STATUSES = [404, 405, 501];
+
+// Keep only the newest messages in memory; trimmed history can be paged back in. Once older pages
+// were loaded nothing is trimmed until the chat is reopened, as the user may be reading them.
+const capMessages = (session: ChatSession): ChatSession =>
+  session.messages.length > CHAT_CONFIG.MAX_MESSAGES_IN_MEMORY && !session.olderPagesLoaded
+    ? { ...session, messages: session.messages.slice(-CHAT_CONFIG.MAX_MESSAGES_IN_MEMORY), hasMore: true }
+    : session;
+
 export const ChatProvider = ({ children }: ChatProviderProps) => {
   const { user } = useAuth();
   const [currentChat, setCurrentChat] = useState<ChatSession | null>(null);
@@ -28,27 +64,76 @@ export const ChatProvider = ({ children }: ChatProviderProps) => {
   const [isTyping, setIsTyping] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const [isConnected, setIsConnected] = useState(false);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [connectionState, setConnectionState] = useState<ConnectionState>(socketService.getState());
+  const isConnected = connectionState === 'open';
+  const [latency, setLatency] = useState<number | null>(socketService.getLatency());
   
   // Refs for managing state
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const currentChatIdRef = useRef<string | null>(null);
+  const streamAbortRef = useRef<AbortController | null>(null);
+  // Set once the chat list was read from the cache, so an empty initial list never overwrites it
+  const chatsHydratedRef = useRef(false);
 
   // Initialize WebSocket connection when user changes
   useEffect(() => {
     if (user) {
-      const token = localStorage.getItem('authToken');
+      // Listen before connecting so later automatic reconnects are handled too
+      const removeListeners = setupWebSocketListeners();
+      const token = tokenStore.getAccessToken();
       if (token) {
         initializeWebSocket(token);
       }
+      return removeListeners;
     } else {
+      // Signed out: drop everything that belonged to the previous user
       socketService.disconnect();
-      setIsConnected(false);
+      streamAbortRef.current?.abort();
+      streamAbortRef.current = null;
+      if (typingTimeoutRef.current) {
+        clearTimeout(typingTimeoutRef.current);
+        typingTimeoutRef.current = null;
+      }
+      currentChatIdRef.current = null;
+      chatsHydratedRef.current = false;
       setChats([]);
       setCurrentChat(null);
+      setIsTyping(false);
+      setIsStreaming(false);
+      setIsLoading(false);
+      setError(null);
     }
   }, [user]);
 
+  // Write-through cache of the chat list
+  useEffect(() => {
+    if (user && chatsHydratedRef.current) {
+      chatCache.putChats(user.id, chats);
+    }
+  }, [user, chats]);
+
+  // Write-through cache of the open chat's most recent messages; skipped mid-stream
+  useEffect(() => {
+    if (!user || !currentChat || isStreaming) return;
+    chatCache.putMessages(
+      currentChat.chatId,
+      currentChat.messages.filter(isConfirmedMessage).slice(-CHAT_CONFIG.MESSAGES_PAGE_SIZE)
+    );
+  }, [user, currentChat, isStreaming]);
+
+  // Mirror the socket's connection state machine
+  useEffect(() => socketService.onStateChange(setConnectionState), []);
+  useEffect(() => socketService.onLatencyChange(setLatency), []);
+
+  // Rejoin the open chat's room after the socket reconnects
+  useEffect(() => {
+    if (connectionState === 'open' && currentChatIdRef.current) {
+      socketService.joinChat(currentChatIdRef.current);
+    }
+  }, [connectionState]);
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -62,13 +147,12 @@ export const ChatProvider = ({ children }: ChatProviderProps) => {
   const initializeWebSocket = async (token: string) => {
     try {
       await socketService.connect(token);
-      setIsConnected(true);
-      setupWebSocketListeners();
       loadChats();
     } catch (error) {
+      // Signed out while connecting
+      if (socketService.getState() === 'idle') return;
       console.error('Failed to connect WebSocket:', error);
-      console.log('Falling back to REST API only');
-      setIsConnected(false);
+      console.log('Falling back to REST API until the socket reconnects');
       setError(null); // Don't show error for WebSocket failures
       // Fallback to REST API
       loadChats();
@@ -91,6 +175,19 @@ export const ChatProvider = ({ children }: ChatProviderProps) => {
     // Listen for connection events
     socketService.on('error', handleSocketError);
     socketService.on('disconnect', handleSocketDisconnect);
+
+    // Track delivery of queued user messages
+    socketService.on('message_status', handleMessageStatus);
+
+    return () => {
+      socketService.off('message', handleNewMessage);
+      socketService.off('typing', handleTypingEvent);
+      socketService.off('read_receipt', handleReadReceipt);
+      socketService.off('chat_update', handleChatUpdate);
+      socketService.off('error', handleSocketError);
+      socketService.off('disconnect', handleSocketDisconnect);
+      socketService.off('message_status', handleMessageStatus);
+    };
   };
 
   const handleNewMessage = (data: MessageData) => {
@@ -103,9 +200,9 @@ export const ChatProvider = ({ children }: ChatProviderProps) => {
             return prev; // Don't add duplicate
           }
           
-          // Replace temporary message if it exists
+          // Replace temporary message if it exists; the echo doubles as its delivery receipt
           const messages = prev.messages.map(msg => 
-            msg.id === data.messageId ? data.message! : msg
+            msg.id === data.messageId ? { ...data.message!, status: 'delivered' as const } : msg
           );
           
           // Add new message if it doesn't exist after replacement
@@ -113,11 +210,11 @@ export const ChatProvider = ({ children }: ChatProviderProps) => {
             messages.push(data.message!);
           }
           
-          return {
+          return capMessages({
             ...prev,
             messages,
             hasNewMessages: true
-          };
+          });
         }
         return prev;
       });
@@ -173,20 +270,75 @@ export const ChatProvider = ({ children }: ChatProviderProps) => {
     setError('Real-time connection error. Messages may be delayed.');
   };
 
+  const handleMessageStatus = ({ chatId, messageId, status }: MessageStatusUpdate) => {
+    setMessageStatus(chatId, messageId, status);
+  };
+
+  // Connection status is shown from connectionState, so a drop is not reported as an error
   const handleSocketDisconnect = (data: ErrorData) => {
     console.log('WebSocket disconnected:', data);
-    setIsConnected(false);
-    setError('Connection lost. Attempting to reconnect...');
   };
 
+  // Fetch the chat list and reconcile it with the cached copy
+  const refreshChats = useCallback(async (): Promise<Chat[]> => {
+    if (!user) return [];
+
+    const [serverChats, cachedChats] = await Promise.all([
+      chatApi.getChats(),
+      chatCache.getChats(user.id)
+    ]);
+    const { chats: mergedChats, staleChatIds, unsyncedTitleChatIds } = mergeChats(cachedChats, serverChats);
+
+    chatsHydratedRef.current = true;
+    setChats(mergedChats);
+
+    // Push titles that were renamed while offline
+    unsyncedTitleChatIds.forEach(chatId => {
+      const chat = mergedChats.find(c => c.id === chatId);
+      if (chat) {
+        chatApi.updateChatTitle(chatId, chat.title)
+          .then(() => setChats(prev => prev.map(c =>
+            c.id === chatId && c.title === chat.title ? { ...c, titleSyncPending: false } : c
+          )))
+          .catch(err => console.warn('Could not sync offline rename:', err));
+      }
+    });
+
+    // Refresh the cached history of chats that changed on the server
+    staleChatIds
+      .filter(chatId => chatId !== currentChatIdRef.current)
+      .slice(0, MAX_BACKGROUND_REFRESHES)
+      .forEach(chatId => {
+        chatApi.getMessages(chatId, 1, CHAT_CONFIG.MESSAGES_PAGE_SIZE)
+          .then(({ messages }) => chatCache.putMessages(chatId, messages))
+          .catch(err => console.warn('Background refresh failed:', err));
+      });
+
+    return mergedChats;
+  }, [user]);
+
   const loadChats = useCallback(async () => {
     if (!user) return;
     
     try {
       setIsLoading(true);
       setError(null);
-      const fetchedChats = await chatApi.getChats();
-      setChats(fetchedChats);
+
+      // Show the cached list instantly, then revalidate against the server
+      const cachedChats = await chatCache.getChats(user.id);
+      if (cachedChats.length > 0) {
+        chatsHydratedRef.current = true;
+        setChats(prev => prev.length > 0 ? prev : cachedChats);
+        setIsLoading(false);
+      }
+
+      try {
+        await refreshChats();
+      } catch (err) {
+        // Offline with a cached list: stay readable instead of showing an error
+        if (cachedChats.length === 0) throw err;
+        console.warn('Showing cached chats, revalidation failed:', err);
+      }
     } catch (err) {
       const errorMessage = err instanceof ApiError 
         ? `Failed to load chats: ${err.message}` 
@@ -196,11 +348,12 @@ export const ChatProvider = ({ children }: ChatProviderProps) => {
     } finally {
       setIsLoading(false);
     }
-  }, [user]);
+  }, [user, refreshChats]);
 
   const createNewChat = useCallback(async (agentId: string): Promise<string> => {
     try {
       const newChat = await chatApi.createChat(agentId);
+      currentChatIdRef.current = newChat.id;
       
       const newChatSession: ChatSession = {
         chatId: newChat.id,
@@ -229,100 +382,345 @@ export const ChatProvider = ({ children }: ChatProviderProps) => {
     }
   }, [isConnected]);
 
-  const sendMessage = useCallback(async (content: string, agentId: string, chatId?: string) => {
-    if (!user) {
-      setError('Please log in to send messages');
-      return;
+  const setMessageStatus = (chatId: string, messageId: string, status: MessageStatus) => {
+    setCurrentChat(prev => prev && prev.chatId === chatId ? {
+      ...prev,
+      messages: prev.messages.map(msg => msg.id === messageId ? { ...msg, status } : msg)
+    } : prev);
+  };
+
+  const appendMessage = useCallback((chatId: string, message: Message) => {
+    setCurrentChat(prev => prev && prev.chatId === chatId ? capMessages({
+      ...prev,
+      messages: [...prev.messages, message]
+    }) : prev);
+
+    setChats(prev => prev.map(chat => 
+      chat.id === chatId 
+        ? { 
+            ...chat, 
+            updatedAt: new Date(),
+            messageCount: chat.messageCount + 1,
+            lastMessage: message.content
+          }
+        : chat
+    ));
+  }, []);
+
+  // Reveal assistant replies one by one with a typing indicator, WhatsApp-style
+  const displayAssistantMessages = useCallback(async (chatId: string, replies: Message[]) => {
+    for (let i = 0; i < replies.length; i++) {
+      setIsTyping(true);
+      const typingDelay = Math.min(
+        replies[i].content.length * CHAT_CONFIG.TYPING_DELAY_PER_CHAR,
+        CHAT_CONFIG.MAX_TYPING_DELAY
+      );
+      await new Promise(resolve => setTimeout(resolve, typingDelay));
+      setIsTyping(false);
+
+      appendMessage(chatId, replies[i]);
+
+      if (i < replies.length - 1) {
+        await new Promise(resolve => setTimeout(resolve, CHAT_CONFIG.MULTI_MESSAGE_GAP));
+      }
     }
+  }, [appendMessage]);
 
+  // REST fallback: prefer the multi-message batch endpoint, then the single message endpoint.
+  // Only a server without the batch endpoint gets the message again; after any other failure it
+  // may already be stored, so resending would duplicate it and its reply.
+  const fetchAssistantReplies = async (chatId: string, content: string, agentId: string): Promise<Message[]> => {
     try {
-      setError(null);
-      setIsTyping(true);
-      
-      const finalChatId = chatId || currentChat?.chatId || await createNewChat(agentId);
-      currentChatIdRef.current = finalChatId;
-      
-      // Add user message immediately for optimistic UI
-      const userMessage: Message = {
-        id: `temp-${Date.now()}-user`,
-        chatId: finalChatId,
-        userId: user.id,
-        agentId,
-        content,
-        role: 'user',
-        timestamp: new Date()
-      };
+      const reply = await chatApi.sendMessageMulti(chatId, content, agentId);
+      return reply.messages;
+    } catch (err) {
+      if (!(err instanceof ApiError && ENDPOINT_UNAVAILABLE_STATUSES.includes(err.status))) {
+        throw err;
+      }
+    }
+
+    const reply = await chatApi.sendMessage(chatId, content, agentId);
+    return reply.messages;
+  };
 
-      setCurrentChat(prev => prev ? {
+  // Grow assistant bubbles as `delta` events arrive; resolves when the stream ends or is stopped
+  const streamAssistantReply = useCallback(async (chatId: string, content: string, agentId: string, onAccepted: () => void) => {
+    const controller = new AbortController();
+    streamAbortRef.current = controller;
+    setIsStreaming(true);
+    setIsTyping(true);
+
+    const streamId = `stream-${Date.now()}`;
+    const messageIds = new Map<number, string>();
+    const contents = new Map<number, string>();
+
+    const updateStreamedMessage = (data: StreamMessageData, mode: 'delta' | 'message') => {
+      const index = data.messageIndex || 1;
+      const previousContent = contents.get(index) || '';
+      const nextContent = mode === 'delta' ? previousContent + data.content : data.content;
+      contents.set(index, nextContent);
+
+      const existingId = messageIds.get(index);
+      const id = (mode === 'message' && data.id) || existingId || `${streamId}-${index}`;
+      messageIds.set(index, id);
+
+      // More messages of a multi-message reply may follow a completed one
+      setIsTyping(mode === 'message' && !!data.totalMessages && index < data.totalMessages);
+
+      if (!existingId) {
+        appendMessage(chatId, {
+          id,
+          chatId,
+          userId: 'ai',
+          agentId,
+          content: nextContent,
+          role: 'assistant',
+          timestamp: new Date(),
+          isMultiMessage: (data.totalMessages || 1) > 1,
+          isFirst: data.isFirst ?? index === 1,
+          isAdditional: data.isAdditional ?? index > 1,
+          messageIndex: index,
+          totalMessages: data.totalMessages
+        });
+        return;
+      }
+
+      setCurrentChat(prev => prev && prev.chatId === chatId ? {
         ...prev,
-        messages: [...prev.messages, userMessage]
-      } : null);
+        messages: prev.messages.map(msg => 
+          msg.id === existingId ? { ...msg, id, content: nextContent } : msg
+        )
+      } : prev);
+    };
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        chatApi.sendMessageStream(
+          chatId,
+          content,
+          agentId,
+          (event) => {
+            // Any event means the server took the message
+            onAccepted();
+            if (event.type === 'delta' || event.type === 'message') {
+              updateStreamedMessage(event.data, event.type);
+            }
+          },
+          resolve,
+          (streamError) => reject(new Error(streamError)),
+          controller.signal
+        ).then(resolve, reject);
+      });
+    } finally {
+      streamAbortRef.current = null;
+      setIsStreaming(false);
+      setIsTyping(false);
+
+      const lastIndex = Math.max(0, ...contents.keys());
+      if (lastIndex > 0) {
+        setChats(prev => prev.map(chat => 
+          chat.id === chatId ? { ...chat, lastMessage: contents.get(lastIndex) } : chat
+        ));
+      }
+    }
+  }, [appendMessage]);
+
+  const stopGeneration = useCallback(() => {
+    streamAbortRef.current?.abort();
+  }, []);
+
+  // Deliver a user message that is already in the chat: over the socket when connected, otherwise
+  // over REST. Failures keep the message in place marked `failed` so it can be retried or edited.
+  const deliverMessage = useCallback(async (userMessage: Message) => {
+    if (!user) return;
+
+    const { chatId, agentId, content } = userMessage;
+
+    try {
+      setError(null);
+      setIsTyping(true);
 
       // Send via WebSocket if connected, otherwise fallback to REST API
       if (isConnected) {
-        socketService.sendMessage(finalChatId, content, agentId);
+        setMessageStatus(chatId, userMessage.id, 'pending');
+        socketService.sendMessage(chatId, content, agentId, userMessage.id);
         
         // Send typing indicator
-        socketService.sendTyping(finalChatId, user.id, agentId, true);
+        socketService.sendTyping(chatId, user.id, agentId, true);
         
         // Clear typing indicator after delay
         if (typingTimeoutRef.current) {
           clearTimeout(typingTimeoutRef.current);
         }
         typingTimeoutRef.current = setTimeout(() => {
-          socketService.sendTyping(finalChatId, user.id, agentId, false);
+          socketService.sendTyping(chatId, user.id, agentId, false);
         }, 3000);
         
       } else {
-        // Fallback to REST API
-        const sentMessage = await chatApi.sendMessage(finalChatId, content, agentId);
-        
-        // Replace temporary message with real one
-        setCurrentChat(prev => prev ? {
-          ...prev,
-          messages: prev.messages.map(msg => 
-            msg.id === userMessage.id ? sentMessage : msg
-          )
-        } : null);
+        // A message retried over REST must not also go out later from the outbox
+        socketService.discardMessage(userMessage.id);
+        setMessageStatus(chatId, userMessage.id, 'sent');
+
+        // Tick the message and update the chat list once the server has taken it
+        let accepted = false;
+        const markAccepted = () => {
+          if (accepted) return;
+          accepted = true;
+          setMessageStatus(chatId, userMessage.id, 'delivered');
+          setChats(prev => prev.map(chat => 
+            chat.id === chatId 
+              ? { 
+                  ...chat, 
+                  updatedAt: new Date(),
+                  messageCount: chat.messageCount + 1,
+                  lastMessage: content
+                }
+              : chat
+          ));
+        };
 
-        // Update chat list with new message
-        setChats(prev => prev.map(chat => 
-          chat.id === finalChatId 
-            ? { 
-                ...chat, 
-                updatedAt: new Date(),
-                messageCount: chat.messageCount + 1,
-                lastMessage: content
-              }
-            : chat
-        ));
+        // Fallback to REST API
+        if (CHAT_CONFIG.STREAMING_ENABLED) {
+          try {
+            await streamAssistantReply(chatId, content, agentId, markAccepted);
+            markAccepted();
+          } catch (streamError) {
+            if (!(streamError instanceof ApiError && ENDPOINT_UNAVAILABLE_STATUSES.includes(streamError.status))) {
+              throw streamError;
+            }
+            console.warn('Streaming endpoint unavailable, falling back to multi-message endpoint');
+            const replies = await fetchAssistantReplies(chatId, content, agentId);
+            markAccepted();
+            await displayAssistantMessages(chatId, replies);
+          }
+        } else {
+          const replies = await fetchAssistantReplies(chatId, content, agentId);
+          markAccepted();
+          await displayAssistantMessages(chatId, replies);
+        }
       }
 
     } catch (err) {
-      const errorMessage = err instanceof ApiError 
+      // The request never got through: park the message in the outbox so it goes out over the
+      // socket once the connection is back. Any other error marks it failed.
+      if (err instanceof NetworkError) {
+        console.warn('Network unavailable, queueing message for delivery:', err);
+        setMessageStatus(chatId, userMessage.id, 'pending');
+        socketService.sendMessage(chatId, content, agentId, userMessage.id);
+        return;
+      }
+
+      const errorMessage = err instanceof ApiError || err instanceof MalformedReplyError
         ? `Failed to send message: ${err.message}` 
         : 'Failed to send message. Please try again.';
       setError(errorMessage);
       console.error('Send message error:', err);
       
-      // Remove temporary message on error
-      setCurrentChat(prev => prev ? {
-        ...prev,
-        messages: prev.messages.filter(msg => !msg.id.startsWith('temp-'))
-      } : null);
+      setMessageStatus(chatId, userMessage.id, 'failed');
     } finally {
       setIsTyping(false);
     }
-  }, [user, currentChat, createNewChat, isConnected]);
+  }, [user, isConnected, displayAssistantMessages, streamAssistantReply]);
+
+  const sendMessage = useCallback(async (content: string, agentId: string, chatId?: string) => {
+    if (!user) {
+      setError('Please log in to send messages');
+      return;
+    }
+
+    let finalChatId: string;
+    try {
+      finalChatId = chatId || currentChat?.chatId || await createNewChat(agentId);
+    } catch {
+      // createNewChat has already reported the error
+      return;
+    }
+    currentChatIdRef.current = finalChatId;
+    
+    // Add user message immediately for optimistic UI; the temp id also keys the outbox entry
+    const userMessage: Message = {
+      id: `temp-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      chatId: finalChatId,
+      userId: user.id,
+      agentId,
+      content,
+      role: 'user',
+      timestamp: new Date(),
+      status: 'pending'
+    };
+
+    setCurrentChat(prev => prev ? capMessages({
+      ...prev,
+      messages: [...prev.messages, userMessage]
+    }) : null);
+
+    await deliverMessage(userMessage);
+  }, [user, currentChat, createNewChat, deliverMessage]);
+
+  const retryMessage = useCallback(async (messageId: string) => {
+    const failedMessage = currentChat?.messages.find(msg => msg.id === messageId);
+    if (!failedMessage || failedMessage.status !== 'failed') return;
+
+    await deliverMessage(failedMessage);
+  }, [currentChat, deliverMessage]);
+
+  // Drop a message that was never delivered, including its outbox entry
+  const deleteFailedMessage = useCallback((messageId: string) => {
+    socketService.discardMessage(messageId);
+    setCurrentChat(prev => prev ? {
+      ...prev,
+      messages: prev.messages.filter(msg => msg.id !== messageId)
+    } : prev);
+  }, []);
 
   const loadChat = useCallback(async (chatId: string) => {
+    let servedFromCache = false;
+
     try {
       setError(null);
       setIsLoading(true);
       currentChatIdRef.current = chatId;
+
+      const queued = (await outbox.getByChat(chatId)).map(entry => outboxEntryToMessage(entry, user?.id || ''));
+
+      // Open instantly from the cache; the server copy below replaces it
+      const cachedMessages = await chatCache.getMessages(chatId);
+      if (cachedMessages.length > 0 && currentChatIdRef.current === chatId) {
+        servedFromCache = true;
+        setCurrentChat({
+          chatId,
+          messages: sortByTimestamp([...cachedMessages, ...queued]),
+          isLoading: false,
+          hasNewMessages: false,
+          pollCount: 0,
+          hasMore: false
+        });
+        setIsLoading(false);
+      }
       
-      const chatSession = await chatApi.getChat(chatId);
-      setCurrentChat(chatSession);
+      // Load the most recent page of history; older pages are fetched on demand
+      const { messages, hasMore, total } = await chatApi.getMessages(chatId, 1, CHAT_CONFIG.MESSAGES_PAGE_SIZE);
+      if (currentChatIdRef.current !== chatId) return;
+
+      const chatSession: ChatSession = {
+        chatId,
+        messages: sortByTimestamp([...messages, ...queued]),
+        isLoading: false,
+        hasNewMessages: false,
+        pollCount: 0,
+        hasMore,
+        total,
+        page: 1
+      };
+      setCurrentChat(prev => {
+        // Keep messages sent while the server copy was loading
+        const localOnly = prev?.chatId === chatId
+          ? prev.messages.filter(msg => !isConfirmedMessage(msg) && !chatSession.messages.some(m => m.id === msg.id))
+          : [];
+        return localOnly.length > 0
+          ? { ...chatSession, messages: sortByTimestamp([...chatSession.messages, ...localOnly]) }
+          : chatSession;
+      });
 
       // Join the chat room via WebSocket
       if (isConnected) {
@@ -343,6 +741,10 @@ export const ChatProvider = ({ children }: ChatProviderProps) => {
       }
 
     } catch (err) {
+      if (servedFromCache) {
+        console.warn('Showing cached messages, revalidation failed:', err);
+        return;
+      }
       const errorMessage = err instanceof ApiError 
         ? `Failed to load chat: ${err.message}` 
         : 'Failed to load chat';
@@ -353,13 +755,93 @@ export const ChatProvider = ({ children }: ChatProviderProps) => {
     }
   }, [isConnected, user]);
 
+  // Prepend the next page of older history to the current chat
+  const loadOlderMessages = useCallback(async () => {
+    if (!currentChat?.hasMore || isLoadingOlder) return;
+
+    const chatId = currentChat.chatId;
+    // Derive the page from what is loaded so new messages arriving meanwhile can't open a gap
+    const loadedCount = currentChat.messages.filter(msg => !msg.id.startsWith('temp-')).length;
+    const page = Math.floor(loadedCount / CHAT_CONFIG.MESSAGES_PAGE_SIZE) + 1;
+
+    try {
+      setIsLoadingOlder(true);
+      const { messages, hasMore, total } = await chatApi.getMessages(chatId, page, CHAT_CONFIG.MESSAGES_PAGE_SIZE);
+
+      setCurrentChat(prev => {
+        if (!prev || prev.chatId !== chatId) return prev;
+
+        // Pages overlap when messages arrived since the last fetch
+        const knownIds = new Set(prev.messages.map(msg => msg.id));
+        const olderMessages = sortByTimestamp(messages.filter(msg => !knownIds.has(msg.id)));
+        return {
+          ...prev,
+          messages: [...olderMessages, ...prev.messages],
+          hasMore,
+          total,
+          page,
+          olderPagesLoaded: true
+        };
+      });
+    } catch (err) {
+      const errorMessage = err instanceof ApiError 
+        ? `Failed to load earlier messages: ${err.message}` 
+        : 'Failed to load earlier messages';
+      setError(errorMessage);
+      console.error('Load older messages error:', err);
+    } finally {
+      setIsLoadingOlder(false);
+    }
+  }, [currentChat, isLoadingOlder]);
+
+  // Open the most recently active chat with an agent. Resolves to null only when the lookup worked
+  // and there is no chat with the agent yet; a failed lookup rejects, so the caller doesn't start a
+  // chat nobody asked for
+  const resumeLatestChat = useCallback(async (agentId: string): Promise<string | null> => {
+    const latestFor = (list: Chat[]) => list
+      .filter(chat => chat.agentId === agentId)
+      .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())[0];
+
+    let latestChat: Chat | undefined;
+    try {
+      setError(null);
+      latestChat = latestFor(await refreshChats());
+    } catch (err) {
+      // Offline: the cached list can still name a chat to resume, but not prove there is none
+      latestChat = user ? latestFor(await chatCache.getChats(user.id)) : undefined;
+      if (!latestChat) {
+        const errorMessage = err instanceof ApiError
+          ? `Failed to load chats: ${err.message}`
+          : 'Failed to load chats';
+        setError(errorMessage);
+        console.error('Could not look up previous chats:', err);
+        throw err;
+      }
+      console.warn('Falling back to cached chats:', err);
+    }
+
+    if (!latestChat) {
+      return null;
+    }
+
+    await loadChat(latestChat.id);
+    return latestChat.id;
+  }, [user, loadChat, refreshChats]);
+
   const updateChatTitle = useCallback(async (chatId: string, title: string) => {
     try {
       await chatApi.updateChatTitle(chatId, title);
       setChats(prev => prev.map(chat => 
-        chat.id === chatId ? { ...chat, title } : chat
+        chat.id === chatId ? { ...chat, title, titleSyncPending: false } : chat
       ));
     } catch (err) {
+      // Offline: rename locally and mark it pending, so the next revalidation pushes it
+      if (err instanceof NetworkError) {
+        setChats(prev => prev.map(chat => 
+          chat.id === chatId ? { ...chat, title, titleSyncPending: true } : chat
+        ));
+        return;
+      }
       const errorMessage = err instanceof ApiError 
         ? `Failed to update chat title: ${err.message}` 
         : 'Failed to update chat title';
@@ -372,6 +854,7 @@ export const ChatProvider = ({ children }: ChatProviderProps) => {
     try {
       await chatApi.deleteChat(chatId);
       setChats(prev => prev.filter(chat => chat.id !== chatId));
+      chatCache.removeMessages(chatId);
       
       // Leave the chat room via WebSocket
       if (isConnected) {
@@ -392,19 +875,34 @@ export const ChatProvider = ({ children }: ChatProviderProps) => {
     }
   }, [currentChat, isConnected]);
 
+  const retryConnection = useCallback(() => {
+    socketService.retryNow();
+  }, []);
+
   const value: ChatContextType = {
     currentChat,
     chats,
     sendMessage,
+    retryMessage,
+    deleteFailedMessage,
     loadChat,
+    resumeLatestChat,
+    loadOlderMessages,
     createNewChat,
     updateChatTitle,
     deleteChat,
     isTyping,
     isLoading,
+    isLoadingOlder,
+    isStreaming,
+    stopGeneration,
     error,
     loadChats,
-    isConnected
+    isConnected,
+    connectionState,
+    latency,
+    retryConnection,
+    isDemoMode: isMockBackendActive()
   };
 
   return (
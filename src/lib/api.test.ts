@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { chatApi, ApiError, NetworkError, MalformedReplyError } from './api';
+import { tokenStore } from './authTokens';
+import { StreamEvent } from './types';
+import { createStorage } from '@/test/storage';
+
+const jsonResponse = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const requestUrl = (call: unknown[]) => String(call[0]);
+const requestHeaders = (call: unknown[]) => new Headers((call[1] as RequestInit).headers);
+
+describe('chatApi', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubGlobal('localStorage', createStorage());
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    tokenStore.setTokens({ token: 'access-1', refreshToken: 'refresh-1' });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  describe('sendMessage', () => {
+    // Every reply shape a backend has been seen to send, with the contents it should turn into
+    it.each([
+      ['a bare message', { id: 'm1', content: 'Hi there' }, ['Hi there']],
+      ['a message under data', { success: true, data: { id: 'm1', content: 'Hi there' } }, ['Hi there']],
+      ['a string array', { is_multi_message: true, messages: ['One', 'Two'] }, ['One', 'Two']],
+      ['a string array under data', { success: true, data: { isMultiMessage: true, messages: ['One', 'Two'] } }, ['One', 'Two']],
+      [
+        'message objects under data',
+        { success: true, data: { messages: [{ id: 'a', content: 'One' }, { id: 'b', content: 'Two', createdAt: 1714557600000 }] } },
+        ['One', 'Two']
+      ],
+      ['top-level messages next to an empty data', { data: {}, messages: [{ content: 'One' }] }, ['One']],
+    ])('accepts %s', async (_, body, contents) => {
+      fetchMock.mockResolvedValue(jsonResponse(200, body));
+
+      const reply = await chatApi.sendMessage('chat-1', 'Hello', 'priya');
+
+      expect(reply.messages.map(message => message.content)).toEqual(contents);
+      expect(reply.totalMessages).toBe(contents.length);
+      expect(reply.isMultiMessage).toBe(contents.length > 1);
+      reply.messages.forEach(message => {
+        expect(message).toMatchObject({ chatId: 'chat-1', agentId: 'priya', role: 'assistant' });
+        expect(message.timestamp).toBeInstanceOf(Date);
+      });
+    });
+
+    it('posts the message with the access token', async () => {
+      fetchMock.mockResolvedValue(jsonResponse(200, { content: 'Hi' }));
+
+      await chatApi.sendMessage('chat-1', 'Hello', 'priya');
+
+      const [call] = fetchMock.mock.calls;
+      expect(requestUrl(call)).toMatch(/\/chats\/chat-1\/messages$/);
+      expect(JSON.parse((call[1] as RequestInit).body as string)).toEqual({ content: 'Hello', agentId: 'priya' });
+      expect(requestHeaders(call).get('Authorization')).toBe('Bearer access-1');
+    });
+
+    it('rejects replies without a message', async () => {
+      fetchMock.mockResolvedValue(jsonResponse(200, { success: true, data: { messages: [] } }));
+
+      await expect(chatApi.sendMessage('chat-1', 'Hello', 'priya')).rejects.toBeInstanceOf(MalformedReplyError);
+    });
+
+    it('reports HTTP failures with their status', async () => {
+      fetchMock.mockResolvedValue(new Response('Agent unavailable', { status: 503 }));
+
+      const error = await chatApi.sendMessage('chat-1', 'Hello', 'priya').catch(err => err);
+
+      expect(error).toBeInstanceOf(ApiError);
+      expect(error).toMatchObject({ status: 503, message: 'Agent unavailable' });
+    });
+
+    it('reports a request that never got a response as a network error', async () => {
+      fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+
+      await expect(chatApi.sendMessage('chat-1', 'Hello', 'priya')).rejects.toBeInstanceOf(NetworkError);
+    });
+
+    it('refreshes an expired token and replays the request', async () => {
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse(401, { error: 'Token expired' }))
+        .mockResolvedValueOnce(jsonResponse(200, { token: 'access-2' }))
+        .mockResolvedValueOnce(jsonResponse(200, { content: 'Hi again' }));
+
+      const reply = await chatApi.sendMessage('chat-1', 'Hello', 'priya');
+
+      expect(reply.messages[0].content).toBe('Hi again');
+      expect(requestUrl(fetchMock.mock.calls[1])).toMatch(/\/auth\/refresh$/);
+      expect(requestHeaders(fetchMock.mock.calls[2]).get('Authorization')).toBe('Bearer access-2');
+    });
+  });
+
+  describe('sendMessageStream', () => {
+    it('turns server-sent events into stream events', async () => {
+      const body = [
+        'event: connected\ndata: {}\n\n',
+        'event: delta\ndata: {"content":"Hel","messageIndex":1}\n\n',
+        'data: {"type":"delta","data":{"content":"lo","messageIndex":1}}\n\n',
+        'event: message\ndata: {"id":"m1","content":"Hello","messageIndex":1}\n\n',
+        'event: complete\ndata: {}\n\n'
+      ].join('');
+      fetchMock.mockResolvedValue(new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } }));
+      const events: StreamEvent[] = [];
+      const onComplete = vi.fn();
+      const onError = vi.fn();
+
+      await chatApi.sendMessageStream('chat-1', 'Hi', 'priya', event => events.push(event), onComplete, onError);
+
+      expect(events).toEqual([
+        { type: 'connected' },
+        { type: 'delta', data: { content: 'Hel', messageIndex: 1 } },
+        { type: 'delta', data: { content: 'lo', messageIndex: 1 } },
+        { type: 'message', data: { id: 'm1', content: 'Hello', messageIndex: 1 } }
+      ]);
+      expect(onComplete).toHaveBeenCalledOnce();
+      expect(onError).not.toHaveBeenCalled();
+    });
+  });
+});
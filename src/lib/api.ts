@@ -1,13 +1,14 @@
-import { Message, Chat, ChatSession, ApiResponse } from './types';
+import { Message, Chat, ChatSession, ApiResponse, AssistantReply, StreamEvent, User } from './types';
+import { normalizeAssistantReply, MalformedReplyError } from './assistantReply';
+import { CHAT_CONFIG } from './constants';
+import { createSSEParser } from './sse';
+import { tokenStore, refreshAccessToken, SessionExpiredError } from './authTokens';
+import { parseUser, MalformedUserError } from './user';
+import { ApiError, NetworkError, fetchOrNetworkError } from './apiError';
+import { mockChatApi, isMockBackendActive } from './mockBackend';
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3002';
 
-class ApiError extends Error {
-  constructor(public status: number, message: string) {
-    super(message);
-    this.name = 'ApiError';
-  }
-}
 
 const handleResponse = async <T>(response: Response): Promise<T> => {
   if (!response.ok) {
@@ -18,7 +19,7 @@ const handleResponse = async <T>(response: Response): Promise<T> => {
 };
 
 const getAuthHeaders = (): HeadersInit => {
-  const token = localStorage.getItem('authToken');
+  const token = tokenStore.getAccessToken();
   console.log('Retrieved token:', token ? `${token.substring(0, 20)}...` : 'No token found');
   
   const headers: HeadersInit = {
@@ -34,10 +35,48 @@ const getAuthHeaders = (): HeadersInit => {
   return headers;
 };
 
-export const chatApi = {
+// Headers are rebuilt per attempt so a replayed request carries the refreshed token
+const withCurrentToken = (init: RequestInit): RequestInit => {
+  const headers = new Headers(init.headers);
+  const token = tokenStore.getAccessToken();
+  if (token) {
+    headers.set('Authorization', `Bearer ${token}`);
+  }
+  return { ...init, headers };
+};
+
+// fetch for authenticated endpoints: a 401 refreshes the access token once and replays the request.
+// If the session cannot be refreshed the original 401 is returned and the user gets signed out.
+const authFetch = async (url: string, init: RequestInit = {}): Promise<Response> => {
+  const response = await fetchOrNetworkError(url, withCurrentToken(init));
+  if (response.status !== 401) return response;
+
+  try {
+    await refreshAccessToken();
+  } catch (error) {
+    if (error instanceof SessionExpiredError) return response;
+    throw error;
+  }
+  return fetchOrNetworkError(url, withCurrentToken(init));
+};
+
+const httpChatApi = {
+  // Current user of the access token; validates a restored session
+  getCurrentUser: async (): Promise<User> => {
+    const response = await authFetch(`${API_BASE_URL}/auth/me`, {
+      headers: getAuthHeaders(),
+    });
+    const result: ApiResponse<unknown> = await handleResponse(response);
+    const user = parseUser(result.data);
+    if (!user) {
+      throw new MalformedUserError('Invalid user data from /auth/me');
+    }
+    return user;
+  },
+
   // Get all chats for a user
   getChats: async (): Promise<Chat[]> => {
-    const response = await fetch(`${API_BASE_URL}/chats`, {
+    const response = await authFetch(`${API_BASE_URL}/chats`, {
       method: 'GET',
       headers: getAuthHeaders(),
     });
@@ -47,7 +86,7 @@ export const chatApi = {
 
   // Get a specific chat with messages
   getChat: async (chatId: string): Promise<ChatSession> => {
-    const response = await fetch(`${API_BASE_URL}/chats/${chatId}`, {
+    const response = await authFetch(`${API_BASE_URL}/chats/${chatId}`, {
       method: 'GET',
       headers: getAuthHeaders(),
     });
@@ -60,26 +99,7 @@ export const chatApi = {
 
   // Create a new chat
   createChat: async (agentId: string): Promise<Chat> => {
-    const token = localStorage.getItem('authToken');
-    
-    // Demo mode for development
-    if (token?.startsWith('demo-token-')) {
-      console.log('Demo mode: Creating demo chat for agent:', agentId);
-      const demoChat: Chat = {
-        id: `demo-chat-${Date.now()}`,
-        userId: 'demo-user',
-        agentId,
-        title: `Chat with ${agentId}`,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-        messageCount: 0,
-        lastMessage: ''
-      };
-      return demoChat;
-    }
-
-    // Real API call
-    const response = await fetch(`${API_BASE_URL}/chats`, {
+    const response = await authFetch(`${API_BASE_URL}/chats`, {
       method: 'POST',
       headers: getAuthHeaders(),
       body: JSON.stringify({ agentId }),
@@ -91,73 +111,22 @@ export const chatApi = {
     return result.data;
   },
 
-  // Send a message (Enhanced with multi-message detection)
-  sendMessage: async (chatId: string, content: string, agentId: string): Promise<Message | {
-    isMultiMessage: boolean;
-    messages: string[];
-    totalMessages: number;
-    primaryMessage: Message;
-  }> => {
+  // Send a message and get the assistant's reply, whatever shape the backend returns it in
+  sendMessage: async (chatId: string, content: string, agentId: string): Promise<AssistantReply> => {
     console.log('API sendMessage called:', { chatId, content, agentId, API_BASE_URL });
-    const token = localStorage.getItem('authToken');
-    
-    // Demo mode for development
-    if (token?.startsWith('demo-token-') || chatId?.startsWith('demo-chat-')) {
-      console.log('Demo mode: Simulating message send');
-      
-      // Simulate user message
-      const userMessage: Message = {
-        id: `demo-msg-${Date.now()}`,
-        chatId,
-        userId: 'demo-user',
-        agentId,
-        content,
-        role: 'user',
-        timestamp: new Date()
-      };
-      
-      // Simulate AI response after delay
-      setTimeout(() => {
-        const responses = [
-          "That's a great question! Let me help you with that.",
-          "I understand your concern. Here's what I think...",
-          "Thank you for sharing that with me. I appreciate your openness.",
-          "That's an interesting perspective. Let's explore this further.",
-          "I hear what you're saying. Let's work through this together."
-        ];
-        
-        const aiResponse: Message = {
-          id: `demo-ai-${Date.now()}`,
-          chatId,
-          userId: 'ai',
-          agentId,
-          content: responses[Math.floor(Math.random() * responses.length)],
-          role: 'assistant',
-          timestamp: new Date()
-        };
-        
-        // Dispatch a custom event to update the chat
-        window.dispatchEvent(new CustomEvent('demoMessage', { detail: aiResponse }));
-      }, 1000 + Math.random() * 2000); // Random delay 1-3 seconds
-      
-      return userMessage;
-    }
-
-    // Real API call
     const headers = getAuthHeaders();
     console.log('Request headers:', headers);
     
     const requestBody = { content, agentId };
     console.log('Request body:', requestBody);
     
-    const response = await fetch(`${API_BASE_URL}/chats/${chatId}/messages`, {
+    const response = await authFetch(`${API_BASE_URL}/chats/${chatId}/messages`, {
       method: 'POST',
       headers,
       body: JSON.stringify(requestBody),
     });
     
     console.log('Response status:', response.status);
-    console.log('Response headers:', Object.fromEntries(response.headers.entries()));
     
     if (!response.ok) {
       const errorText = await response.text();
@@ -165,66 +134,12 @@ export const chatApi = {
       throw new ApiError(response.status, errorText || `HTTP ${response.status}`);
     }
     
-    const result = await response.json();
+    const result: unknown = await response.json();
     console.log('🔍 FRONTEND RECEIVED FROM BACKEND:', result);
     
-    // 🔍 Enhanced multi-message detection for backend responses
-    let isMultiMessage = false;
-    let messages: string[] = [];
-    let totalMessages = 1;
-    
-    // Check for different multi-message formats from backend
-    if (result.isMultiMessage || result.is_multi_message) {
-      isMultiMessage = true;
-      console.log('✅ Multi-message detected via isMultiMessage flag');
-    }
-    
-    // Check for messages array (from Python bridge)
-    if (result.messages && Array.isArray(result.messages) && result.messages.length > 1) {
-      isMultiMessage = true;
-      messages = result.messages;
-      totalMessages = result.messages.length;
-      console.log(`✅ Multi-message detected: ${totalMessages} messages in array`);
-    }
-    
-    // Check nested data structure
-    if (result.data && result.data.messages && Array.isArray(result.data.messages) && result.data.messages.length > 1) {
-      isMultiMessage = true;
-      messages = result.data.messages.map((msg: any) => typeof msg === 'string' ? msg : msg.content);
-      totalMessages = result.data.messages.length;
-      console.log(`✅ Multi-message detected in data.messages: ${totalMessages} messages`);
-    }
-    
-    // Create primary message object
-    let primaryMessage: Message;
-    const primaryContent = result.data?.content || result.content || (messages.length > 0 ? messages[0] : 'No content');
-    
-    primaryMessage = {
-      id: result.data?.id || result.id || `msg-${Date.now()}`,
-      chatId,
-      userId: 'ai',
-      agentId,
-      content: primaryContent,
-      role: 'assistant',
-      timestamp: new Date(result.data?.timestamp || result.timestamp || Date.now())
-    };
-    
-    // If multi-message detected, return special format
-    if (isMultiMessage && messages.length > 1) {
-      console.log(`🎉 RETURNING MULTI-MESSAGE FORMAT: ${totalMessages} messages`);
-      console.log('📝 Messages:', messages);
-      
-      return {
-        isMultiMessage: true,
-        messages,
-        totalMessages,
-        primaryMessage
-      };
-    }
-    
-    // Single message format
-    console.log('📄 Returning single message format');
-    return primaryMessage;
+    const reply = normalizeAssistantReply(result, chatId, agentId);
+    console.log(`📄 Normalized reply: ${reply.totalMessages} message(s)`);
+    return reply;
   },
 
   // Get messages for a chat (with pagination)
@@ -233,7 +148,7 @@ export const chatApi = {
     hasMore: boolean;
     total: number;
   }> => {
-    const response = await fetch(
+    const response = await authFetch(
       `${API_BASE_URL}/chats/${chatId}/messages?page=${page}&limit=${limit}`,
       {
         method: 'GET',
@@ -255,7 +170,7 @@ export const chatApi = {
       params.append('lastMessageId', lastMessageId);
     }
     
-    const response = await fetch(`${API_BASE_URL}/chats/${chatId}/messages/poll?${params}`, {
+    const response = await authFetch(`${API_BASE_URL}/chats/${chatId}/messages/poll?${params}`, {
       method: 'GET',
       headers: getAuthHeaders(),
     });
@@ -265,7 +180,7 @@ export const chatApi = {
 
   // Update chat title
   updateChatTitle: async (chatId: string, title: string): Promise<void> => {
-    const response = await fetch(`${API_BASE_URL}/chats/${chatId}`, {
+    const response = await authFetch(`${API_BASE_URL}/chats/${chatId}`, {
       method: 'PATCH',
       headers: getAuthHeaders(),
       body: JSON.stringify({ title }),
@@ -275,7 +190,7 @@ export const chatApi = {
 
   // Delete a chat
   deleteChat: async (chatId: string): Promise<void> => {
-    const response = await fetch(`${API_BASE_URL}/chats/${chatId}`, {
+    const response = await authFetch(`${API_BASE_URL}/chats/${chatId}`, {
       method: 'DELETE',
       headers: getAuthHeaders(),
     });
@@ -284,7 +199,7 @@ export const chatApi = {
 
   // Mark messages as read
   markAsRead: async (chatId: string, messageIds: string[]): Promise<void> => {
-    const response = await fetch(`${API_BASE_URL}/chats/${chatId}/messages/read`, {
+    const response = await authFetch(`${API_BASE_URL}/chats/${chatId}/messages/read`, {
       method: 'POST',
       headers: getAuthHeaders(),
       body: JSON.stringify({ messageIds }),
@@ -292,173 +207,165 @@ export const chatApi = {
     await handleResponse(response);
   },
 
-  // Multi-message batch API (WhatsApp-style)
-  sendMessageMulti: async (chatId: string, content: string, agentId: string): Promise<{
-    success: boolean;
-    data: {
-      isMultiMessage: boolean;
-      totalMessages: number;
-      messages: Message[];
-    };
-  }> => {
-    const token = localStorage.getItem('authToken');
-    
-    // Demo mode for development
-    if (token?.startsWith('demo-token-') || chatId?.startsWith('demo-chat-')) {
-      console.log('Demo mode: Simulating multi-message send');
-      
-      // Simulate multiple AI responses
-      const demoResponses = [
-        "That's such an interesting question! I'm really glad you asked me that.",
-        "You know, I've been thinking about this topic a lot lately, and I have quite a few thoughts to share.",
-        "First, let me tell you what I find most fascinating about this...",
-        "And another thing that really excites me is how we can explore this together!",
-        "I hope this gives you some good insights to think about! 😊"
-      ];
-      
-      // Randomly choose 2-4 messages for demo
-      const numMessages = Math.floor(Math.random() * 3) + 2; // 2-4 messages
-      const selectedResponses = demoResponses.slice(0, numMessages);
-      
-      const messages: Message[] = selectedResponses.map((response, index) => ({
-        id: `demo-multi-${Date.now()}-${index}`,
-        chatId,
-        userId: 'ai',
-        agentId,
-        content: response,
-        role: 'assistant',
-        timestamp: new Date(Date.now() + index * 100), // Slight time offset
-        isMultiMessage: true,
-        isFirst: index === 0,
-        isAdditional: index > 0,
-        messageIndex: index + 1,
-        totalMessages: numMessages
-      } as Message));
-      
-      return {
-        success: true,
-        data: {
-          isMultiMessage: true,
-          totalMessages: numMessages,
-          messages
-        }
-      };
-    }
+  // Register this browser for web push; muted agents are skipped server-side
+  registerPushSubscription: async (subscription: PushSubscriptionJSON, mutedAgentIds: string[]): Promise<void> => {
+    const response = await authFetch(`${API_BASE_URL}/notifications/push-subscriptions`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ subscription, mutedAgentIds }),
+    });
+    await handleResponse(response);
+  },
 
-    // Real API call
-    const response = await fetch(`${API_BASE_URL}/chats/${chatId}/messages/multi`, {
+  // Multi-message batch API (WhatsApp-style)
+  sendMessageMulti: async (chatId: string, content: string, agentId: string): Promise<AssistantReply> => {
+    const response = await authFetch(`${API_BASE_URL}/chats/${chatId}/messages/multi`, {
       method: 'POST',
       headers: getAuthHeaders(),
       body: JSON.stringify({ content, agentId }),
     });
     
-    const result: {
-      success: boolean;
-      data: {
-        isMultiMessage: boolean;
-        totalMessages: number;
-        messages: Message[];
-      };
-    } = await handleResponse(response);
-    return result;
+    return normalizeAssistantReply(await handleResponse<unknown>(response), chatId, agentId);
   },
 
   // Real-time streaming API
+  // Emits `delta` events with text fragments as they are generated and `message` events with
+  // complete messages. HTTP failures reject with ApiError so callers can fall back; aborting
+  // via `signal` ends the stream quietly.
   sendMessageStream: async (
     chatId: string, 
     content: string, 
     agentId: string,
-    onMessage: (data: any) => void,
+    onMessage: (event: StreamEvent) => void,
     onComplete: () => void,
-    onError: (error: string) => void
+    onError: (error: string) => void,
+    signal?: AbortSignal
   ): Promise<void> => {
-    const token = localStorage.getItem('authToken');
-    
-    // Demo mode for development
-    if (token?.startsWith('demo-token-') || chatId?.startsWith('demo-chat-')) {
-      console.log('Demo mode: Simulating streaming');
-      
-      const demoMessages = [
-        "That's such a thoughtful question!",
-        "Let me share some ideas with you...",
-        "I think you'll find this perspective interesting.",
-        "Thanks for giving me the chance to explore this with you! 😊"
-      ];
-      
-      const numMessages = Math.floor(Math.random() * 3) + 2;
-      const messages = demoMessages.slice(0, numMessages);
-      
-      onMessage({ type: 'connected' });
-      
-      for (let i = 0; i < messages.length; i++) {
-        await new Promise(resolve => setTimeout(resolve, 1500 + Math.random() * 1000));
-        
-        onMessage({
-          type: 'message',
-          data: {
-            content: messages[i],
-            messageIndex: i + 1,
-            totalMessages: messages.length,
-            isFirst: i === 0,
-            isAdditional: i > 0
-          }
-        });
+    // A dropped connection resumes from the last received event id
+    let reconnects = 0;
+    let outcome: 'complete' | 'error' | null = null;
+
+    const parser = createSSEParser(({ event, data }) => {
+      if (outcome) return;
+
+      let payload;
+      try {
+        payload = JSON.parse(data);
+      } catch (parseError) {
+        console.warn('Failed to parse stream data:', data);
+        return;
+      }
+
+      // The event type may come from the `event:` field or from the JSON payload itself
+      const type = payload.type ?? event;
+      const eventData = payload.type ? payload.data : payload;
+
+      if (type === 'connected') {
+        onMessage({ type: 'connected' });
+      } else if (type === 'delta' || type === 'message') {
+        onMessage({ type, data: eventData });
+      } else if (type === 'complete') {
+        outcome = 'complete';
+        onComplete();
+      } else if (type === 'error') {
+        outcome = 'error';
+        onError(payload.error || 'Stream failed');
+      }
+    });
+
+    while (true) {
+      const headers = new Headers(getAuthHeaders());
+      headers.set('Accept', 'text/event-stream');
+      if (parser.lastEventId) {
+        headers.set('Last-Event-ID', parser.lastEventId);
       }
-      
-      onComplete();
-      return;
-    }
 
-    // Real streaming API call
-    try {
-      const response = await fetch(`${API_BASE_URL}/chats/${chatId}/messages/stream`, {
+      const response = await authFetch(`${API_BASE_URL}/chats/${chatId}/messages/stream`, {
         method: 'POST',
-        headers: getAuthHeaders(),
+        headers,
         body: JSON.stringify({ content, agentId }),
+        signal,
+      }).catch((error: Error) => {
+        if (error.name === 'AbortError') return null;
+        throw error;
       });
 
+      if (!response) return;
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => '');
+        throw new ApiError(response.status, errorText || `HTTP ${response.status}`);
+      }
+
       if (!response.body) {
-        throw new Error('Streaming not supported');
+        throw new ApiError(501, 'Streaming not supported');
       }
 
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const chunk = decoder.decode(value);
-        const lines = chunk.split('\n');
-        
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const data = JSON.parse(line.slice(6));
-              
-              if (data.type === 'connected') {
-                onMessage({ type: 'connected' });
-              } else if (data.type === 'message') {
-                onMessage({
-                  type: 'message',
-                  data: data.data
-                });
-              } else if (data.type === 'complete') {
-                onComplete();
-              } else if (data.type === 'error') {
-                onError(data.error);
-                return;
-              }
-            } catch (parseError) {
-              console.warn('Failed to parse stream data:', line);
-            }
-          }
+      let streamError: unknown = null;
+      try {
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+
+        while (!outcome) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          parser.feed(decoder.decode(value, { stream: true }));
         }
+
+        if (outcome) {
+          reader.cancel().catch(() => {});
+        }
+      } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError') return;
+        streamError = error;
+      }
+
+      if (outcome) return;
+      if (!streamError) {
+        // Server closed the stream without an explicit `complete` event
+        onComplete();
+        return;
       }
-    } catch (error: any) {
-      onError(error.message);
+
+      // Only resume when the server tagged its events; otherwise a retry would generate a new reply
+      if (!parser.lastEventId || reconnects >= CHAT_CONFIG.STREAM_MAX_RECONNECTS) {
+        onError(streamError instanceof Error ? streamError.message : 'Stream failed');
+        return;
+      }
+
+      reconnects++;
+      parser.reset();
+      console.warn(`Stream interrupted, resuming after event ${parser.lastEventId} (attempt ${reconnects})`);
+      await new Promise(resolve => setTimeout(resolve, parser.retry ?? CHAT_CONFIG.STREAM_RETRY_DELAY));
+      if (signal?.aborted) return;
     }
   },
 };
 
-export { ApiError }; 
\ No newline at end of file
+export type ChatApi = typeof httpChatApi;
+
+// Resolved per call: a guest session can start or end at any time
+const transport = (): ChatApi => isMockBackendActive() ? mockChatApi : httpChatApi;
+
+const delegate = <K extends keyof ChatApi>(name: K) =>
+  ((...args: Parameters<ChatApi[K]>) =>
+    (transport()[name] as (...args: Parameters<ChatApi[K]>) => ReturnType<ChatApi[K]>)(...args)) as ChatApi[K];
+
+// Every call goes to the real backend, or to the in-browser mock backend for guests and `VITE_BACKEND_MODE=mock`
+export const chatApi: ChatApi = {
+  getCurrentUser: delegate('getCurrentUser'),
+  getChats: delegate('getChats'),
+  getChat: delegate('getChat'),
+  createChat: delegate('createChat'),
+  sendMessage: delegate('sendMessage'),
+  getMessages: delegate('getMessages'),
+  pollMessages: delegate('pollMessages'),
+  updateChatTitle: delegate('updateChatTitle'),
+  deleteChat: delegate('deleteChat'),
+  markAsRead: delegate('markAsRead'),
+  registerPushSubscription: delegate('registerPushSubscription'),
+  sendMessageMulti: delegate('sendMessageMulti'),
+  sendMessageStream: delegate('sendMessageStream'),
+};
+
+export { ApiError, NetworkError, MalformedReplyError }; 
\ No newline at end of file
@@ -0,0 +1,22 @@
+// HTTP failure from the backend (or the mock backend); `status` is the response status code
+export class ApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// The request never got a response: offline, DNS failure, refused connection. fetch reports these
+// as a TypeError, which would be indistinguishable from a bug in the calling code.
+export class NetworkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+// fetch, with an unreachable server reported as a NetworkError
+export const fetchOrNetworkError = (url: string, init: RequestInit): Promise<Response> =>
+  fetch(url, init).catch(error => {
+    throw error instanceof TypeError ? new NetworkError(error.message) : error;
+  });
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeAssistantReply, MalformedReplyError } from './assistantReply';
+
+const normalize = (raw: unknown) => normalizeAssistantReply(raw, 'chat-1', 'priya');
+
+describe('normalizeAssistantReply', () => {
+  it('wraps a single message reply', () => {
+    const reply = normalize({ id: 'm1', content: 'Hi there', timestamp: '2024-05-01T10:00:00Z' });
+
+    expect(reply.isMultiMessage).toBe(false);
+    expect(reply.messages).toEqual([{
+      id: 'm1',
+      chatId: 'chat-1',
+      userId: 'ai',
+      agentId: 'priya',
+      content: 'Hi there',
+      role: 'assistant',
+      timestamp: new Date('2024-05-01T10:00:00Z')
+    }]);
+  });
+
+  it('reads content nested under data', () => {
+    const reply = normalize({ success: true, data: { id: 42, content: 'Nested' } });
+
+    expect(reply.messages[0]).toMatchObject({ id: '42', content: 'Nested' });
+  });
+
+  it('expands a string array from the Python bridge', () => {
+    const reply = normalize({ is_multi_message: true, id: 'm2', messages: ['One', 'Two', 'Three'] });
+
+    expect(reply.totalMessages).toBe(3);
+    expect(reply.messages.map(msg => msg.id)).toEqual(['m2-0', 'm2-1', 'm2-2']);
+    expect(reply.messages[2]).toMatchObject({
+      content: 'Three',
+      isMultiMessage: true,
+      isFirst: false,
+      isAdditional: true,
+      messageIndex: 3,
+      totalMessages: 3
+    });
+  });
+
+  it('keeps ids of message objects in data.messages', () => {
+    const reply = normalize({
+      success: true,
+      data: { messages: [{ id: 'a', content: 'First' }, { id: 'b', content: 'Second' }] }
+    });
+
+    expect(reply.isMultiMessage).toBe(true);
+    expect(reply.messages.map(msg => [msg.id, msg.content])).toEqual([['a', 'First'], ['b', 'Second']]);
+  });
+
+  it('rejects payloads with the wrong types', () => {
+    expect(() => normalize({ messages: [{ text: 'no content' }] })).toThrow(MalformedReplyError);
+    expect(() => normalize('just a string')).toThrow(MalformedReplyError);
+  });
+
+  it('rejects payloads without any message', () => {
+    expect(() => normalize({ success: true, data: {} })).toThrow('Reply contained no messages');
+  });
+
+  it('surfaces backend reported failures', () => {
+    expect(() => normalize({ success: false, error: 'Agent unavailable' })).toThrow('Agent unavailable');
+  });
+});
@@ -0,0 +1,97 @@
+import { z } from 'zod';
+import { AssistantReply, Message } from './types';
+
+// Raised when a reply payload matches none of the shapes the backend is known to send
+export class MalformedReplyError extends Error {
+  constructor(message: string, public issues: z.ZodIssue[] = []) {
+    super(message);
+    this.name = 'MalformedReplyError';
+  }
+}
+
+const idSchema = z.union([z.string(), z.number()]).transform(String);
+const timestampSchema = z.union([z.string(), z.number(), z.date()]);
+
+const replyMessageSchema = z.object({
+  id: idSchema.optional(),
+  content: z.string(),
+  timestamp: timestampSchema.optional(),
+  createdAt: timestampSchema.optional(),
+});
+
+// The Python bridge sends plain strings, the Node backend sends message objects
+const replyEntrySchema = z.union([z.string(), replyMessageSchema]);
+
+const replyBodySchema = z.object({
+  id: idSchema.optional(),
+  content: z.string().optional(),
+  timestamp: timestampSchema.optional(),
+  isMultiMessage: z.boolean().optional(),
+  is_multi_message: z.boolean().optional(),
+  messages: z.array(replyEntrySchema).optional(),
+});
+
+const replyPayloadSchema = replyBodySchema.extend({
+  success: z.boolean().optional(),
+  error: z.string().optional(),
+  data: replyBodySchema.nullish(),
+});
+
+type ReplyEntry = z.infer<typeof replyEntrySchema>;
+
+// Convert any backend reply variant (`{ content }`, `{ messages: string[] }`,
+// `{ data: { messages: Message[] } }`, ...) into a single `AssistantReply`.
+// Throws `MalformedReplyError` if the payload carries no usable message.
+export const normalizeAssistantReply = (raw: unknown, chatId: string, agentId: string): AssistantReply => {
+  const parsed = replyPayloadSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new MalformedReplyError(
+      `Unexpected reply format at "${issue.path.join('.') || 'root'}": ${issue.message}`,
+      parsed.error.issues
+    );
+  }
+
+  const payload = parsed.data;
+  if (payload.success === false) {
+    throw new MalformedReplyError(payload.error || 'Backend reported an unsuccessful reply');
+  }
+
+  const body = payload.data ?? {};
+  const baseId = body.id ?? payload.id ?? `msg-${Date.now()}`;
+  const baseTimestamp = body.timestamp ?? payload.timestamp ?? Date.now();
+
+  let entries: ReplyEntry[] = body.messages?.length ? body.messages : payload.messages ?? [];
+  if (entries.length === 0) {
+    const content = body.content ?? payload.content;
+    entries = content !== undefined ? [content] : [];
+  }
+  if (entries.length === 0) {
+    throw new MalformedReplyError('Reply contained no messages');
+  }
+
+  const totalMessages = entries.length;
+  const isMultiMessage = totalMessages > 1;
+
+  const messages = entries.map((entry, i): Message => {
+    const message = typeof entry === 'string' ? { content: entry } : entry;
+    return {
+      id: message.id ?? (isMultiMessage ? `${baseId}-${i}` : baseId),
+      chatId,
+      userId: 'ai',
+      agentId,
+      content: message.content,
+      role: 'assistant',
+      timestamp: new Date(message.timestamp ?? message.createdAt ?? baseTimestamp),
+      ...(isMultiMessage && {
+        isMultiMessage: true,
+        isFirst: i === 0,
+        isAdditional: i > 0,
+        messageIndex: i + 1,
+        totalMessages
+      })
+    };
+  });
+
+  return { messages, isMultiMessage, totalMessages };
+};
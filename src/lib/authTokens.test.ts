@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { tokenStore, refreshAccessToken, onSessionExpired, onTokenRefreshed, SessionExpiredError } from './authTokens';
+import { NetworkError } from './apiError';
+import { createStorage } from '@/test/storage';
+
+const jsonResponse = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+describe('refreshAccessToken', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', createStorage());
+    tokenStore.setTokens({ token: 'expired', refreshToken: 'refresh-1' });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('shares one refresh request between concurrent callers', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse(200, { token: 'fresh', refreshToken: 'refresh-2' }));
+    vi.stubGlobal('fetch', fetchMock);
+    const refreshed = vi.fn();
+    const unsubscribe = onTokenRefreshed(refreshed);
+
+    const tokens = await Promise.all([refreshAccessToken(), refreshAccessToken(), refreshAccessToken()]);
+    unsubscribe();
+
+    expect(tokens).toEqual(['fresh', 'fresh', 'fresh']);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(refreshed).toHaveBeenCalledOnce();
+    expect(tokenStore.getAccessToken()).toBe('fresh');
+    expect(tokenStore.getRefreshToken()).toBe('refresh-2');
+  });
+
+  it('keeps the refresh token when the server does not rotate it', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(jsonResponse(200, { token: 'fresh' })));
+
+    await refreshAccessToken();
+
+    expect(tokenStore.getRefreshToken()).toBe('refresh-1');
+  });
+
+  it('ends the session when the refresh token is rejected', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(jsonResponse(401, { error: 'revoked' })));
+    const expired = vi.fn();
+    const unsubscribe = onSessionExpired(expired);
+
+    await expect(refreshAccessToken()).rejects.toBeInstanceOf(SessionExpiredError);
+    unsubscribe();
+
+    expect(expired).toHaveBeenCalledOnce();
+    expect(tokenStore.getAccessToken()).toBeNull();
+    expect(tokenStore.getRefreshToken()).toBeNull();
+  });
+
+  it('keeps the session on server errors', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(jsonResponse(503, {})));
+    const expired = vi.fn();
+    const unsubscribe = onSessionExpired(expired);
+
+    await expect(refreshAccessToken()).rejects.toThrow('HTTP 503');
+    unsubscribe();
+
+    expect(expired).not.toHaveBeenCalled();
+    expect(tokenStore.getRefreshToken()).toBe('refresh-1');
+  });
+
+  it('reports an unreachable refresh endpoint as a NetworkError', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('Failed to fetch')));
+
+    await expect(refreshAccessToken()).rejects.toBeInstanceOf(NetworkError);
+    expect(tokenStore.getRefreshToken()).toBe('refresh-1');
+  });
+});
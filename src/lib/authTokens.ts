@@ -0,0 +1,124 @@
+// Access/refresh token storage and the refresh flow shared by chatApi and the socket
+
+import { BACKEND_CONFIG } from './constants';
+import { fetchOrNetworkError } from './apiError';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3002';
+
+const ACCESS_TOKEN_KEY = 'authToken';
+const REFRESH_TOKEN_KEY = 'refreshToken';
+
+export interface AuthTokens {
+  token: string;
+  // Only sent on login and when the server rotates it
+  refreshToken?: string;
+}
+
+export const tokenStore = {
+  getAccessToken: (): string | null => localStorage.getItem(ACCESS_TOKEN_KEY),
+
+  getRefreshToken: (): string | null => localStorage.getItem(REFRESH_TOKEN_KEY),
+
+  setTokens: ({ token, refreshToken }: AuthTokens): void => {
+    localStorage.setItem(ACCESS_TOKEN_KEY, token);
+    if (refreshToken) {
+      localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+    }
+  },
+
+  clear: (): void => {
+    localStorage.removeItem(ACCESS_TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+  },
+};
+
+// The refresh token is missing, expired or revoked: the user has to sign in again
+export class SessionExpiredError extends Error {
+  constructor(message = 'Session expired') {
+    super(message);
+    this.name = 'SessionExpiredError';
+  }
+}
+
+const refreshListeners: Set<(token: string) => void> = new Set();
+const expiryListeners: Set<() => void> = new Set();
+
+export const onTokenRefreshed = (listener: (token: string) => void): (() => void) => {
+  refreshListeners.add(listener);
+  return () => refreshListeners.delete(listener);
+};
+
+export const onSessionExpired = (listener: () => void): (() => void) => {
+  expiryListeners.add(listener);
+  return () => expiryListeners.delete(listener);
+};
+
+const expireSession = (): never => {
+  tokenStore.clear();
+  expiryListeners.forEach(listener => listener());
+  throw new SessionExpiredError();
+};
+
+const requestNewTokens = async (): Promise<string> => {
+  const refreshToken = tokenStore.getRefreshToken();
+  if (!refreshToken) return expireSession();
+
+  // Network failures propagate as NetworkError: being offline is no reason to sign the user out
+  const response = await fetchOrNetworkError(`${API_BASE_URL}/auth/refresh`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ refreshToken }),
+  });
+
+  if (response.status === 400 || response.status === 401 || response.status === 403) {
+    return expireSession();
+  }
+  if (!response.ok) {
+    throw new Error(`Token refresh failed: HTTP ${response.status}`);
+  }
+
+  const data: Partial<AuthTokens> = await response.json();
+  if (!data.token) return expireSession();
+
+  tokenStore.setTokens({ token: data.token, refreshToken: data.refreshToken });
+  refreshListeners.forEach(listener => listener(data.token!));
+  return data.token;
+};
+
+let refreshPromise: Promise<string> | null = null;
+
+// Exchange the refresh token for a new access token. Requests that hit a 401 at the same
+// time all wait for the same refresh instead of each spending the refresh token.
+export const refreshAccessToken = (): Promise<string> => {
+  if (!refreshPromise) {
+    refreshPromise = requestNewTokens().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+// Ask the server to invalidate the refresh token. Best effort: signing out locally must not
+// depend on the backend being reachable.
+export const revokeSession = async (): Promise<void> => {
+  const token = tokenStore.getAccessToken();
+  const refreshToken = tokenStore.getRefreshToken();
+  // Guest sessions only ever existed in this browser
+  if ((!token && !refreshToken) || token?.startsWith(BACKEND_CONFIG.GUEST_TOKEN_PREFIX)) return;
+
+  try {
+    const response = await fetch(`${API_BASE_URL}/auth/logout`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify({ refreshToken }),
+    });
+    if (!response.ok) {
+      console.warn('Session revoke failed:', response.status);
+    }
+  } catch (error) {
+    console.warn('Session revoke failed:', error);
+  }
+};
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { mergeChats } from './chatCache';
+import { Chat } from './types';
+
+const chat = (overrides: Partial<Chat>): Chat => ({
+  id: 'c1',
+  userId: 'u1',
+  agentId: 'priya',
+  title: 'Chat with Priya',
+  createdAt: new Date('2024-05-01T10:00:00Z'),
+  updatedAt: new Date('2024-05-01T10:00:00Z'),
+  messageCount: 4,
+  ...overrides
+});
+
+describe('mergeChats', () => {
+  it('takes the server list as the set of existing chats', () => {
+    const result = mergeChats(
+      [chat({ id: 'c1' }), chat({ id: 'deleted' })],
+      [chat({ id: 'c1' }), chat({ id: 'new' })]
+    );
+
+    expect(result.chats.map(c => c.id)).toEqual(['c1', 'new']);
+    expect(result.staleChatIds).toEqual([]);
+  });
+
+  it('flags chats whose message count changed on the server', () => {
+    const result = mergeChats([chat({ messageCount: 4 })], [chat({ messageCount: 6 })]);
+
+    expect(result.chats[0].messageCount).toBe(6);
+    expect(result.staleChatIds).toEqual(['c1']);
+  });
+
+  it('prefers the server title over a cached copy that was merely updated later', () => {
+    const result = mergeChats(
+      [chat({ title: 'Old name', updatedAt: new Date('2024-05-03T10:00:00Z') })],
+      [chat({ title: 'Renamed elsewhere', updatedAt: new Date('2024-05-02T10:00:00Z') })]
+    );
+
+    expect(result.chats[0].title).toBe('Renamed elsewhere');
+    expect(result.unsyncedTitleChatIds).toEqual([]);
+  });
+
+  it('keeps a pending local rename and reports it for syncing', () => {
+    const result = mergeChats(
+      [chat({ title: 'Renamed offline', titleSyncPending: true })],
+      [chat({ title: 'Chat with Priya', updatedAt: new Date('2024-05-03T10:00:00Z') })]
+    );
+
+    expect(result.chats[0]).toMatchObject({ title: 'Renamed offline', titleSyncPending: true });
+    expect(result.unsyncedTitleChatIds).toEqual(['c1']);
+  });
+
+  it('drops the pending mark once the server has the local title', () => {
+    const result = mergeChats(
+      [chat({ title: 'Renamed offline', titleSyncPending: true })],
+      [chat({ title: 'Renamed offline' })]
+    );
+
+    expect(result.chats[0].titleSyncPending).toBeUndefined();
+    expect(result.unsyncedTitleChatIds).toEqual([]);
+  });
+});
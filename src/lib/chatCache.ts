@@ -0,0 +1,80 @@
+import { STORES, withStore, withTransaction, warnOnFailure } from './db';
+import { Chat, Message } from './types';
+
+// Replace every record matching `key` on `indexName` with `records`, inside one transaction
+const replaceByIndex = <T>(
+  storeName: typeof STORES.CHATS | typeof STORES.MESSAGES,
+  indexName: string,
+  key: string,
+  records: T[]
+): Promise<void> =>
+  withTransaction([storeName], transaction => {
+    const store = transaction.objectStore(storeName);
+    const keysRequest = store.index(indexName).getAllKeys(key);
+    keysRequest.onsuccess = () => {
+      keysRequest.result.forEach(existingKey => store.delete(existingKey));
+      records.forEach(record => store.put(record));
+    };
+  });
+
+// The cache is an optimization: failures are logged and treated as a cache miss
+const warn = warnOnFailure('Chat cache');
+
+export const chatCache = {
+  getChats: (userId: string): Promise<Chat[]> =>
+    withStore<Chat[]>(STORES.CHATS, 'readonly', store => store.index('userId').getAll(userId))
+      .catch(error => {
+        warn('read')(error);
+        return [];
+      }),
+
+  putChats: (userId: string, chats: Chat[]): Promise<void> =>
+    replaceByIndex(STORES.CHATS, 'userId', userId, chats).catch(warn('write')),
+
+  getMessages: (chatId: string): Promise<Message[]> =>
+    withStore<Message[]>(STORES.MESSAGES, 'readonly', store => store.index('chatId').getAll(chatId))
+      .catch(error => {
+        warn('read')(error);
+        return [];
+      }),
+
+  putMessages: (chatId: string, messages: Message[]): Promise<void> =>
+    replaceByIndex(STORES.MESSAGES, 'chatId', chatId, messages).catch(warn('write')),
+
+  removeMessages: (chatId: string): Promise<void> =>
+    replaceByIndex(STORES.MESSAGES, 'chatId', chatId, []).catch(warn('delete')),
+};
+
+export interface ChatMergeResult {
+  chats: Chat[];
+  // Cached messages for these chats no longer match the server's message count
+  staleChatIds: string[];
+  // Renamed offline and not yet synced; the local title still has to be pushed
+  unsyncedTitleChatIds: string[];
+}
+
+// Reconcile the cached chat list with a fresh one from the server. The server decides which chats
+// exist, how many messages they have and their titles, except for a rename that is still pending.
+export const mergeChats = (cached: Chat[], server: Chat[]): ChatMergeResult => {
+  const cachedById = new Map(cached.map(chat => [chat.id, chat]));
+  const staleChatIds: string[] = [];
+  const unsyncedTitleChatIds: string[] = [];
+
+  const chats = server.map(serverChat => {
+    const cachedChat = cachedById.get(serverChat.id);
+    if (!cachedChat) return serverChat;
+
+    if (cachedChat.messageCount !== serverChat.messageCount) {
+      staleChatIds.push(serverChat.id);
+    }
+
+    if (cachedChat.titleSyncPending && cachedChat.title !== serverChat.title) {
+      unsyncedTitleChatIds.push(serverChat.id);
+      return { ...serverChat, title: cachedChat.title, titleSyncPending: true };
+    }
+
+    return serverChat;
+  });
+
+  return { chats, staleChatIds, unsyncedTitleChatIds };
+};
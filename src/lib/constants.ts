@@ -1,75 +1,46 @@
 
-export const AI_AGENTS = {
-  THERAPIST: {
-    id: 'therapist',
-    name: 'Mental Health Guru',
-    shortName: 'Mind Guru',
-    description: 'Your compassionate mental wellness guruji',
-    longDescription: 'Get personalized therapy sessions, emotional support, and mental wellness guidance from our AI guruji trained in cognitive behavioral therapy techniques.',
-    icon: '🧠',
-    color: 'therapist',
-    primaryColor: '#0ea5e9',
-    gradientFrom: 'from-therapist-500',
-    gradientTo: 'to-therapist-600',
-    bgGradient: 'therapist-gradient',
-    features: ['24/7 Support', 'CBT Techniques', 'Mood Tracking', 'Crisis Support'],
-    route: '/therapist'
-  },
-  DIETICIAN: {
-    id: 'dietician',
-    name: 'Nutrition Guru',
-    shortName: 'Food Guru',
-    description: 'Your personalized nutrition guruji',
-    longDescription: 'Receive customized meal plans, nutrition advice, and dietary guidance tailored to your health goals and cultural preferences from your food guru.',
-    icon: '🥗',
-    color: 'dietician',
-    primaryColor: '#22c55e',
-    gradientFrom: 'from-dietician-500',
-    gradientTo: 'to-dietician-600',
-    bgGradient: 'dietician-gradient',
-    features: ['Meal Planning', 'Nutrition Analysis', 'Desi Cuisine', 'Health Tracking'],
-    route: '/dietician'
-  },
-  CAREER: {
-    id: 'career',
-    name: 'Career Guru',
-    shortName: 'Success Guru',
-    description: 'Your professional development guruji',
-    longDescription: 'Navigate your career path with personalized guidance, skill assessments, interview preparation, and job market insights from your career guru.',
-    icon: '💼',
-    color: 'career',
-    primaryColor: '#f59e0b',
-    gradientFrom: 'from-career-500',
-    gradientTo: 'to-career-600',
-    bgGradient: 'career-gradient',
-    features: ['Career Planning', 'Skill Assessment', 'Interview Prep', 'Market Insights'],
-    route: '/career'
-  },
-  PRIYA: {
-    id: 'priya',
-    name: 'Priya',
-    shortName: 'Priya',
-    description: 'Your friendly AI saathi',
-    longDescription: 'Chat with Priya, your versatile AI friend who can help with daily tasks, answer questions, and provide companionship - just like your favorite elder sister!',
-    icon: '👩',
-    color: 'priya',
-    primaryColor: '#ec4899',
-    gradientFrom: 'from-priya-500',
-    gradientTo: 'to-priya-600',
-    bgGradient: 'priya-gradient',
-    features: ['General Chat', 'Task Help', 'Entertainment', 'Learning Support'],
-    route: '/priya'
-  }
-} as const;
-
-export type AgentId = keyof typeof AI_AGENTS;
+export * from './agents';
 
 export const CHAT_CONFIG = {
   POLLING_INTERVAL: 2000, // 2 seconds
   MAX_RETRIES: 3,
   TYPING_DELAY: 500,
   MESSAGE_DISPLAY_DELAY: 1000,
-  MAX_MESSAGES_PER_REQUEST: 5
+  MAX_MESSAGES_PER_REQUEST: 5,
+  MESSAGES_PAGE_SIZE: 50,
+  MAX_MESSAGES_IN_MEMORY: 500, // Older messages are dropped and re-fetched on scroll-back
+  TYPING_DELAY_PER_CHAR: 50, // Simulated typing speed for assistant replies
+  MAX_TYPING_DELAY: 3000,
+  MULTI_MESSAGE_GAP: 1500, // Pause between messages of a multi-message reply
+  STREAMING_ENABLED: import.meta.env.VITE_ENABLE_STREAMING === 'true',
+  STREAM_RETRY_DELAY: 1000, // Used until the server sends its own `retry:` value
+  STREAM_MAX_RECONNECTS: 3
+};
+
+export const WEBSOCKET_CONFIG = {
+  CONNECT_TIMEOUT: 10000,
+  PING_INTERVAL: 30000,
+  PONG_TIMEOUT: 10000, // Missing pong after this long forces a reconnect
+  RECONNECT_BASE_DELAY: 1000, // Doubles on every failed attempt
+  RECONNECT_MAX_DELAY: 30000,
+  RECONNECT_JITTER: 0.5, // Up to half of each delay is randomized
+  MAX_RECONNECT_ATTEMPTS: Infinity,
+  ACK_TIMEOUT: 10000, // Resend a message the server hasn't echoed back within this time
+  MAX_SEND_ATTEMPTS: 3,
+  AUTH_FAILED_CLOSE_CODE: 1008 // Sent by the server when the token is rejected
+};
+
+export const BACKEND_CONFIG = {
+  // `mock` answers every request from the in-browser mock backend, so no server is needed
+  MODE: (import.meta.env.VITE_BACKEND_MODE === 'mock' ? 'mock' : 'http') as 'mock' | 'http',
+  MOCK_LATENCY: 300, // Simulated network round trip of the mock backend
+  GUEST_TOKEN_PREFIX: 'demo-token-' // Sessions started with "Try as guest" always use the mock backend
+};
+
+export const NOTIFICATION_CONFIG = {
+  VAPID_PUBLIC_KEY: import.meta.env.VITE_VAPID_PUBLIC_KEY || '',
+  MUTED_AGENTS_KEY: 'gurukul-muted-agents',
+  MAX_BODY_LENGTH: 120
 };
 
 export const API_ENDPOINTS = {
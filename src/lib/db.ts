@@ -0,0 +1,94 @@
+// Thin promise wrapper around the app's IndexedDB database
+
+const DB_NAME = 'ai-chat';
+const DB_VERSION = 2;
+
+export const STORES = {
+  OUTBOX: 'outbox',
+  CHATS: 'chats',
+  MESSAGES: 'messages'
+} as const;
+
+type StoreName = typeof STORES[keyof typeof STORES];
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (databasePromise) return databasePromise;
+
+  databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORES.OUTBOX)) {
+        db.createObjectStore(STORES.OUTBOX, { keyPath: 'messageId' }).createIndex('chatId', 'chatId');
+      }
+      if (!db.objectStoreNames.contains(STORES.CHATS)) {
+        db.createObjectStore(STORES.CHATS, { keyPath: 'id' }).createIndex('userId', 'userId');
+      }
+      if (!db.objectStoreNames.contains(STORES.MESSAGES)) {
+        db.createObjectStore(STORES.MESSAGES, { keyPath: 'id' }).createIndex('chatId', 'chatId');
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a later call to retry after a failed open
+  databasePromise.catch(() => {
+    databasePromise = null;
+  });
+
+  return databasePromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Run a single request against a store and resolve with its result
+export const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const store = db.transaction(storeName, mode).objectStore(storeName);
+  return promisify(run(store));
+};
+
+// Run several operations atomically; resolves once the transaction commits
+export const withTransaction = async (
+  storeNames: StoreName[],
+  run: (transaction: IDBTransaction) => void
+): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeNames, 'readwrite');
+  run(transaction);
+
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// Logger for storage that is best effort: `warnOnFailure('Outbox')('write')` is a rejection handler
+export const warnOnFailure = (label: string) => (action: string) => (error: unknown) => {
+  console.warn(`${label} ${action} failed:`, error);
+};
+
+// Drop every record of the signed-in user, e.g. on logout
+export const clearDatabase = (): Promise<void> =>
+  withTransaction(Object.values(STORES), transaction => {
+    Object.values(STORES).forEach(storeName => transaction.objectStore(storeName).clear());
+  });
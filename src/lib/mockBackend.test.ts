@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mockChatApi, resetMockBackend, isMockBackendActive } from './mockBackend';
+import { tokenStore } from './authTokens';
+import { ApiError } from './apiError';
+import { createStorage } from '@/test/storage';
+
+// Run a mock call to completion without waiting out the simulated latency
+const settle = async <T>(promise: Promise<T>): Promise<T> => {
+  await vi.runAllTimersAsync();
+  return promise;
+};
+
+describe('mockChatApi', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('localStorage', createStorage());
+    resetMockBackend();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('is active for guest tokens only', () => {
+    tokenStore.setTokens({ token: 'real-token' });
+    expect(isMockBackendActive()).toBe(false);
+
+    tokenStore.setTokens({ token: 'demo-token-123' });
+    expect(isMockBackendActive()).toBe(true);
+  });
+
+  it('stores the user message and every reply of a multi-message answer', async () => {
+    const chat = await settle(mockChatApi.createChat('priya'));
+    const reply = await settle(mockChatApi.sendMessageMulti(chat.id, 'Hello', 'priya'));
+
+    const { messages, total } = await settle(mockChatApi.getMessages(chat.id));
+    expect(total).toBe(1 + reply.totalMessages);
+    expect(messages[0]).toMatchObject({ role: 'user', content: 'Hello' });
+    expect(messages.slice(1).map(message => message.id)).toEqual(reply.messages.map(message => message.id));
+
+    const [listed] = await settle(mockChatApi.getChats());
+    expect(listed.messageCount).toBe(total);
+  });
+
+  it('pages back from the newest messages', async () => {
+    const chat = await settle(mockChatApi.createChat('career'));
+    for (let i = 0; i < 3; i++) {
+      await settle(mockChatApi.sendMessage(chat.id, `Question ${i}`, 'career'));
+    }
+
+    const newest = await settle(mockChatApi.getMessages(chat.id, 1, 4));
+    const older = await settle(mockChatApi.getMessages(chat.id, 2, 4));
+
+    expect(newest.messages).toHaveLength(4);
+    expect(newest.hasMore).toBe(true);
+    expect(older.messages).toHaveLength(2);
+    expect(older.hasMore).toBe(false);
+    expect(older.messages[0].content).toBe('Question 0');
+  });
+
+  it('rejects unknown chats with a 404', async () => {
+    const error = await settle(mockChatApi.getChat('missing').catch(error => error));
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect((error as ApiError).status).toBe(404);
+  });
+});
@@ -0,0 +1,248 @@
+// In-browser stand-in for the backend: implements the chatApi contract against a store kept in
+// localStorage. Used for guest sessions and for development with VITE_BACKEND_MODE=mock.
+
+import type { ChatApi } from './api';
+import { ApiError } from './apiError';
+import { AssistantReply, Chat, ChatSession, Message } from './types';
+import { BACKEND_CONFIG, getAgentById } from './constants';
+import { tokenStore } from './authTokens';
+import { userStore } from './user';
+import { generateReplyContents } from './mockReplies';
+
+const STORAGE_KEY = 'gurukul-mock-backend';
+
+export const isMockBackendActive = (): boolean =>
+  BACKEND_CONFIG.MODE === 'mock' ||
+  !!tokenStore.getAccessToken()?.startsWith(BACKEND_CONFIG.GUEST_TOKEN_PREFIX);
+
+interface MockState {
+  chats: Chat[];
+  messages: Record<string, Message[]>;
+}
+
+let state: MockState | null = null;
+
+// JSON turns dates into strings; revive them so the mock hands out the same types as the API layer
+const loadState = (): MockState => {
+  if (state) return state;
+
+  state = { chats: [], messages: {} };
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed: MockState = JSON.parse(stored);
+      state.chats = parsed.chats.map(chat => ({
+        ...chat,
+        createdAt: new Date(chat.createdAt),
+        updatedAt: new Date(chat.updatedAt)
+      }));
+      Object.entries(parsed.messages).forEach(([chatId, messages]) => {
+        state!.messages[chatId] = messages.map(message => ({ ...message, timestamp: new Date(message.timestamp) }));
+      });
+    }
+  } catch (error) {
+    console.warn('Ignoring unreadable mock backend data:', error);
+  }
+  return state;
+};
+
+const saveState = () => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(loadState()));
+};
+
+// Forget all guest data, e.g. on logout
+export const resetMockBackend = () => {
+  state = null;
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+const mockId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const delay = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+
+// Answer after a simulated network round trip, so loading states show up like they do for real
+const respond = async <T>(produce: () => T): Promise<T> => {
+  await delay(BACKEND_CONFIG.MOCK_LATENCY);
+  return produce();
+};
+
+const findChat = (chatId: string): Chat => {
+  const chat = loadState().chats.find(c => c.id === chatId);
+  if (!chat) {
+    throw new ApiError(404, 'Chat not found');
+  }
+  return chat;
+};
+
+const chatMessages = (chatId: string): Message[] => loadState().messages[chatId] ?? [];
+
+export const storeMessage = (message: Message): Message => {
+  const current = loadState();
+  current.messages[message.chatId] = [...chatMessages(message.chatId), message];
+  current.chats = current.chats.map(chat => chat.id === message.chatId
+    ? { ...chat, messageCount: chat.messageCount + 1, lastMessage: message.content, updatedAt: new Date() }
+    : chat);
+  saveState();
+  return message;
+};
+
+// Store the user's side of an exchange under a server-assigned id
+export const storeUserMessage = (chatId: string, content: string, agentId: string): Message => {
+  findChat(chatId);
+  return storeMessage({
+    id: mockId('mock-msg'),
+    chatId,
+    userId: userStore.get()?.id ?? 'guest',
+    agentId,
+    content,
+    role: 'user',
+    timestamp: new Date()
+  });
+};
+
+export const createAssistantMessage = (
+  chatId: string,
+  agentId: string,
+  content: string,
+  index: number,
+  total: number
+): Message => ({
+  id: mockId('mock-ai'),
+  chatId,
+  userId: 'assistant',
+  agentId,
+  content,
+  role: 'assistant',
+  timestamp: new Date(),
+  isMultiMessage: total > 1,
+  isFirst: index === 0,
+  isAdditional: index > 0,
+  messageIndex: index + 1,
+  totalMessages: total
+});
+
+const replyTo = (chatId: string, content: string, agentId: string, multi: boolean): AssistantReply => {
+  storeUserMessage(chatId, content, agentId);
+  const contents = multi ? generateReplyContents(agentId) : generateReplyContents(agentId).slice(0, 1);
+  const messages = contents.map((text, index) =>
+    storeMessage(createAssistantMessage(chatId, agentId, text, index, contents.length)));
+  return { messages, isMultiMessage: messages.length > 1, totalMessages: messages.length };
+};
+
+export const mockChatApi: ChatApi = {
+  getCurrentUser: () => respond(() => {
+    const user = userStore.get();
+    if (!user) {
+      throw new ApiError(401, 'Not signed in');
+    }
+    return user;
+  }),
+
+  getChats: () => respond(() =>
+    [...loadState().chats].sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())),
+
+  getChat: (chatId) => respond((): ChatSession => {
+    findChat(chatId);
+    return { chatId, messages: chatMessages(chatId), isLoading: false, hasNewMessages: false, pollCount: 0 };
+  }),
+
+  createChat: (agentId) => respond(() => {
+    const chat: Chat = {
+      id: mockId('mock-chat'),
+      userId: userStore.get()?.id ?? 'guest',
+      agentId,
+      title: `Chat with ${getAgentById(agentId)?.name ?? agentId}`,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      messageCount: 0,
+      lastMessage: ''
+    };
+    loadState().chats.unshift(chat);
+    saveState();
+    return chat;
+  }),
+
+  sendMessage: (chatId, content, agentId) => respond(() => replyTo(chatId, content, agentId, false)),
+
+  // Page 1 holds the newest messages, later pages go further back
+  getMessages: (chatId, page = 1, limit = 50) => respond(() => {
+    findChat(chatId);
+    const all = chatMessages(chatId);
+    const end = Math.max(0, all.length - (page - 1) * limit);
+    const start = Math.max(0, end - limit);
+    return { messages: all.slice(start, end), hasMore: start > 0, total: all.length };
+  }),
+
+  pollMessages: (chatId, lastMessageId) => respond(() => {
+    const all = chatMessages(chatId);
+    if (!lastMessageId) return all;
+    const index = all.findIndex(message => message.id === lastMessageId);
+    return index === -1 ? [] : all.slice(index + 1);
+  }),
+
+  updateChatTitle: (chatId, title) => respond(() => {
+    findChat(chatId);
+    loadState().chats = loadState().chats.map(chat =>
+      chat.id === chatId ? { ...chat, title, updatedAt: new Date() } : chat);
+    saveState();
+  }),
+
+  deleteChat: (chatId) => respond(() => {
+    findChat(chatId);
+    const current = loadState();
+    current.chats = current.chats.filter(chat => chat.id !== chatId);
+    delete current.messages[chatId];
+    saveState();
+  }),
+
+  markAsRead: (chatId, messageIds) => respond(() => {
+    loadState().messages[chatId] = chatMessages(chatId).map(message => messageIds.includes(message.id)
+      ? { ...message, metadata: { ...message.metadata, read: true } }
+      : message);
+    saveState();
+  }),
+
+  // Guests get in-tab notifications only
+  registerPushSubscription: () => respond(() => undefined),
+
+  sendMessageMulti: (chatId, content, agentId) => respond(() => replyTo(chatId, content, agentId, true)),
+
+  // Types each reply out word by word, like the SSE endpoint does
+  sendMessageStream: async (chatId, content, agentId, onMessage, onComplete, onError, signal) => {
+    await delay(BACKEND_CONFIG.MOCK_LATENCY, signal);
+    storeUserMessage(chatId, content, agentId);
+    onMessage({ type: 'connected' });
+
+    const contents = generateReplyContents(agentId);
+    for (let i = 0; i < contents.length; i++) {
+      const message = createAssistantMessage(chatId, agentId, contents[i], i, contents.length);
+      const position = {
+        messageIndex: i + 1,
+        totalMessages: contents.length,
+        isFirst: i === 0,
+        isAdditional: i > 0
+      };
+
+      await delay(800 + Math.random() * 700, signal);
+      const words = contents[i].split(' ');
+      for (let w = 0; w < words.length; w++) {
+        if (signal?.aborted) return;
+        await delay(60 + Math.random() * 90, signal);
+        onMessage({ type: 'delta', data: { content: w === 0 ? words[w] : ` ${words[w]}`, ...position } });
+      }
+      if (signal?.aborted) return;
+
+      storeMessage(message);
+      onMessage({ type: 'message', data: { id: message.id, content: message.content, ...position } });
+    }
+
+    onComplete();
+  },
+};
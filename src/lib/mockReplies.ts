@@ -0,0 +1,80 @@
+// Canned agent replies and socket delivery shared by the in-browser mock backend and the local
+// mock server (server/)
+
+import type { Message } from './types';
+
+export const MOCK_REPLIES: Record<string, string[]> = {
+  therapist: [
+    "Thank you for sharing that with me. It takes courage to talk about how you feel.",
+    "Let's slow down for a moment. What do you notice in your body right now?",
+    "That sounds like a lot to carry. Which part of it feels heaviest today?",
+    "One small step could be writing down the thought and asking: what would I tell a friend?"
+  ],
+  dietician: [
+    "Great question! Let's look at what a balanced plate could look like for you.",
+    "Try filling half your plate with sabzi, a quarter with dal or paneer, and a quarter with roti or rice.",
+    "Staying hydrated matters too: aim for 8 glasses of water, more on hot days.",
+    "Would you like a simple meal plan for the week?"
+  ],
+  career: [
+    "That's an important decision, and it's good that you're thinking it through.",
+    "Start by listing the skills you enjoy using most, not just the ones you're good at.",
+    "Talking to two or three people already working in that field can save you months of guessing.",
+    "Shall we sketch a 90-day plan together?"
+  ],
+  priya: [
+    "Aww, I'm so happy you messaged me! 😊",
+    "Tell me more, I'm all ears.",
+    "You know what, that reminds me of something I love about our chats...",
+    "How has the rest of your day been?"
+  ]
+};
+
+// Pick one to three consecutive canned lines, so both single and multi-message replies show up
+export const generateReplyContents = (agentId: string): string[] => {
+  const lines = MOCK_REPLIES[agentId] ?? MOCK_REPLIES.priya;
+  const count = 1 + Math.floor(Math.random() * 3);
+  const start = Math.floor(Math.random() * (lines.length - count + 1));
+  return lines.slice(start, start + count);
+};
+
+interface ReplyFrames {
+  message: { chatId: string; content: string; agentId: string; messageId?: string; message: Message };
+  typing: { chatId: string; userId: string; agentId: string; isTyping: boolean };
+}
+
+export interface SocketMessageDelivery {
+  chatId: string;
+  content: string;
+  agentId: string;
+  messageId?: string;
+  // User messages already taken, by the client's messageId
+  delivered: Map<string, Message>;
+  storeUserMessage: () => Message;
+  replies: string[];
+  // Wait before a reply; resolves false when the rest should be dropped
+  pause: (reply: string) => Promise<boolean>;
+  storeReply: (reply: string, index: number) => Message;
+  send: (type: keyof ReplyFrames, data: ReplyFrames[keyof ReplyFrames]) => void;
+}
+
+// Echoing the client's messageId acknowledges delivery of the queued message. A message resent
+// because its ack was lost is acknowledged again, but stored and answered only once. Each reply
+// follows its own typing pause
+export const deliverSocketMessage = async (delivery: SocketMessageDelivery): Promise<void> => {
+  const { chatId, content, agentId, messageId, delivered, send } = delivery;
+  const seen = messageId ? delivered.get(messageId) : undefined;
+  const message = seen ?? delivery.storeUserMessage();
+  if (messageId) delivered.set(messageId, message);
+  send('message', { chatId, content, agentId, messageId, message });
+  if (seen) return;
+
+  for (const [index, reply] of delivery.replies.entries()) {
+    send('typing', { chatId, userId: 'assistant', agentId, isTyping: true });
+    if (!await delivery.pause(reply)) return;
+
+    const stored = delivery.storeReply(reply, index);
+    send('typing', { chatId, userId: 'assistant', agentId, isTyping: false });
+    send('message', { chatId, content: stored.content, agentId, message: stored });
+  }
+};
@@ -0,0 +1,51 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { MockSocket } from './mockSocket';
+import { mockChatApi, resetMockBackend } from './mockBackend';
+import { createStorage } from '@/test/storage';
+
+// Run a mock call to completion without waiting out the simulated latency
+const settle = async <T>(promise: Promise<T>): Promise<T> => {
+  await vi.runAllTimersAsync();
+  return promise;
+};
+
+const openSocket = async () => {
+  const socket = new MockSocket();
+  const frames: { type: string; data: { messageId?: string } }[] = [];
+  socket.onmessage = event => frames.push(JSON.parse(event.data));
+  await vi.runAllTimersAsync();
+  return { socket, frames };
+};
+
+describe('MockSocket', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('localStorage', createStorage());
+    resetMockBackend();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('acknowledges a message resent over a new connection without storing or answering it twice', async () => {
+    const chat = await settle(mockChatApi.createChat('priya'));
+    const frame = JSON.stringify({
+      type: 'message',
+      data: { chatId: chat.id, content: 'Hello', agentId: 'priya', messageId: 'temp-1' },
+      timestamp: Date.now()
+    });
+
+    const first = await openSocket();
+    first.socket.send(frame);
+    await vi.runAllTimersAsync();
+    const second = await openSocket();
+    second.socket.send(frame);
+    await vi.runAllTimersAsync();
+
+    expect(second.frames).toEqual([{ type: 'message', data: expect.objectContaining({ messageId: 'temp-1' }), timestamp: expect.any(Number) }]);
+    const { messages } = await settle(mockChatApi.getMessages(chat.id));
+    expect(messages.filter(message => message.role === 'user')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,87 @@
+// WebSocket look-alike that speaks the socket protocol of WEBSOCKET_SPECIFICATIONS.md against the
+// mock backend, so socketService needs no special cases for guests
+
+import { BACKEND_CONFIG } from './constants';
+import type { MessageData, PingData, SocketEventMap, SocketMessage } from './socket';
+import { createAssistantMessage, delay, storeMessage, storeUserMessage } from './mockBackend';
+import { deliverSocketMessage, generateReplyContents } from './mockReplies';
+import type { Message } from './types';
+
+type ServerFrameType = Exclude<SocketMessage['type'], 'ping'>;
+
+// Outlives each socket, since a queued message is resent over the next connection
+const deliveredMessages = new Map<string, Message>();
+
+export class MockSocket {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSING = 2;
+  static readonly CLOSED = 3;
+
+  readyState: number = MockSocket.CONNECTING;
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+
+  constructor() {
+    setTimeout(() => {
+      if (this.readyState !== MockSocket.CONNECTING) return;
+      this.readyState = MockSocket.OPEN;
+      this.onopen?.(new Event('open'));
+    }, BACKEND_CONFIG.MOCK_LATENCY);
+  }
+
+  send(raw: string): void {
+    if (this.readyState !== MockSocket.OPEN) return;
+    const frame: SocketMessage = JSON.parse(raw);
+    setTimeout(() => this.handleFrame(frame), BACKEND_CONFIG.MOCK_LATENCY / 3);
+  }
+
+  close(code = 1000, reason = ''): void {
+    if (this.readyState === MockSocket.CLOSED) return;
+    this.readyState = MockSocket.CLOSED;
+    setTimeout(() => this.onclose?.(new CloseEvent('close', { code, reason, wasClean: true })));
+  }
+
+  private push<K extends ServerFrameType>(type: K, data: SocketEventMap[K]): void {
+    if (this.readyState !== MockSocket.OPEN) return;
+    const frame = JSON.stringify({ type, data, timestamp: Date.now() });
+    this.onmessage?.(new MessageEvent('message', { data: frame }));
+  }
+
+  private handleFrame(frame: SocketMessage): void {
+    switch (frame.type) {
+      case 'ping':
+        this.push('pong', { timestamp: (frame.data as PingData).timestamp });
+        break;
+      case 'message':
+        this.handleUserMessage(frame.data as MessageData).catch(error => {
+          this.push('error', { message: error instanceof Error ? error.message : 'Message failed' });
+        });
+        break;
+      // Rooms, typing and read receipts need no reaction from a single-user backend
+      default:
+        break;
+    }
+  }
+
+  private handleUserMessage({ chatId, content, agentId, messageId }: MessageData): Promise<void> {
+    const replies = generateReplyContents(agentId);
+    return deliverSocketMessage({
+      chatId,
+      content,
+      agentId,
+      messageId,
+      delivered: deliveredMessages,
+      storeUserMessage: () => storeUserMessage(chatId, content, agentId),
+      replies,
+      pause: async reply => {
+        await delay(Math.min(reply.length * 40, 2500));
+        return this.readyState === MockSocket.OPEN;
+      },
+      storeReply: (reply, index) => storeMessage(createAssistantMessage(chatId, agentId, reply, index, replies.length)),
+      send: (type, data) => this.push(type, data)
+    });
+  }
+}
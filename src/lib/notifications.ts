@@ -0,0 +1,107 @@
+import { chatApi } from './api';
+import { Agent, NOTIFICATION_CONFIG } from './constants';
+
+export type NotificationPermissionState = NotificationPermission | 'unsupported';
+
+export const getNotificationPermission = (): NotificationPermissionState =>
+  typeof Notification === 'undefined' ? 'unsupported' : Notification.permission;
+
+// Must be called from a user gesture; browsers ignore or penalize unprompted requests
+export const requestNotificationPermission = async (): Promise<NotificationPermissionState> => {
+  if (getNotificationPermission() === 'unsupported') return 'unsupported';
+
+  const permission = await Notification.requestPermission();
+  if (permission === 'granted') {
+    await registerPushSubscription();
+  }
+  return permission;
+};
+
+// Per-agent mute settings, kept per browser
+export const getMutedAgentIds = (): string[] => {
+  try {
+    const stored = localStorage.getItem(NOTIFICATION_CONFIG.MUTED_AGENTS_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed.filter((id): id is string => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+export const isAgentMuted = (agentId: string): boolean => getMutedAgentIds().includes(agentId);
+
+export const setAgentMuted = async (agentId: string, muted: boolean): Promise<void> => {
+  const others = getMutedAgentIds().filter(id => id !== agentId);
+  const mutedAgentIds = muted ? [...others, agentId] : others;
+  localStorage.setItem(NOTIFICATION_CONFIG.MUTED_AGENTS_KEY, JSON.stringify(mutedAgentIds));
+
+  // Push messages are sent by the server, so it has to know about the change too
+  if (getNotificationPermission() === 'granted') {
+    await registerPushSubscription();
+  }
+};
+
+const urlBase64ToUint8Array = (base64: string): Uint8Array => {
+  const padded = (base64 + '='.repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(padded), char => char.charCodeAt(0));
+};
+
+// Subscribe this browser for web push and share the subscription with the backend. Without a VAPID key
+// or push support, notifications are only shown while the app is open.
+export const registerPushSubscription = async (): Promise<void> => {
+  if (!NOTIFICATION_CONFIG.VAPID_PUBLIC_KEY || !('serviceWorker' in navigator) || !('PushManager' in window)) {
+    return;
+  }
+
+  try {
+    const registration = await navigator.serviceWorker.ready;
+    const subscription = await registration.pushManager.getSubscription() ??
+      await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: urlBase64ToUint8Array(NOTIFICATION_CONFIG.VAPID_PUBLIC_KEY)
+      });
+    await chatApi.registerPushSubscription(subscription.toJSON(), getMutedAgentIds());
+  } catch (error) {
+    console.warn('Push subscription failed:', error);
+  }
+};
+
+const truncate = (text: string) =>
+  text.length > NOTIFICATION_CONFIG.MAX_BODY_LENGTH
+    ? `${text.slice(0, NOTIFICATION_CONFIG.MAX_BODY_LENGTH - 1)}…`
+    : text;
+
+// Show an assistant reply as a system notification. Replies of one chat share a tag, so a
+// multi-message burst updates a single notification instead of stacking several.
+export const showReplyNotification = (agent: Agent, chatId: string, content: string, onClick: () => void) => {
+  if (getNotificationPermission() !== 'granted' || isAgentMuted(agent.id)) return;
+
+  try {
+    const notification = new Notification(agent.name, {
+      body: truncate(content),
+      icon: `/icons/${agent.id}.svg`,
+      tag: `chat-${chatId}`
+    });
+    notification.onclick = () => {
+      window.focus();
+      onClick();
+      notification.close();
+    };
+  } catch (error) {
+    // Some mobile browsers only allow notifications from a service worker
+    console.warn('Notification failed:', error);
+  }
+};
+
+// Stop push messages to this browser, e.g. after logout
+export const unregisterPushSubscription = async (): Promise<void> => {
+  if (!('serviceWorker' in navigator)) return;
+
+  try {
+    const registration = await navigator.serviceWorker.getRegistration();
+    const subscription = await registration?.pushManager?.getSubscription();
+    await subscription?.unsubscribe();
+  } catch (error) {
+    console.warn('Push unsubscribe failed:', error);
+  }
+};
@@ -0,0 +1,84 @@
+import { createHash } from 'node:crypto';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { beginOAuthLogin, createCodeChallenge, readOAuthCallback } from './oauth';
+import { createStorage } from '@/test/storage';
+
+const startLogin = async (returnTo = '/priya/chat-1') => {
+  const url = new URL(await beginOAuthLogin('client-id', 'http://localhost:5173/', returnTo));
+  return url.searchParams;
+};
+
+describe('OAuth login', () => {
+  beforeEach(() => {
+    vi.stubGlobal('sessionStorage', createStorage());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('derives the S256 challenge as unpadded base64url of the SHA-256 digest', async () => {
+    const verifier = 'dBjftJeZ4CVP-mJ92K27uhbUJU1p1r_wW1gFWFOEjXk';
+
+    const challenge = await createCodeChallenge(verifier);
+
+    expect(challenge).toBe(createHash('sha256').update(verifier).digest('base64url'));
+  });
+
+  it('sends state and a PKCE challenge to Google', async () => {
+    const params = await startLogin();
+
+    expect(params.get('state')).toBeTruthy();
+    expect(params.get('code_challenge')).toMatch(/^[\w-]{43}$/);
+    expect(params.get('code_challenge_method')).toBe('S256');
+    expect(params.get('access_type')).toBe('offline');
+  });
+
+  it('accepts a code that comes back with the matching state', async () => {
+    const params = await startLogin();
+
+    const callback = readOAuthCallback(`?code=auth-code&state=${params.get('state')}`);
+
+    expect(callback.type).toBe('success');
+    if (callback.type === 'success') {
+      expect(callback.code).toBe('auth-code');
+      expect(await createCodeChallenge(callback.codeVerifier)).toBe(params.get('code_challenge'));
+      expect(callback.returnTo).toBe('/priya/chat-1');
+    }
+  });
+
+  it('rejects a code with a foreign state, and a replay of a valid one', async () => {
+    const params = await startLogin();
+
+    expect(readOAuthCallback('?code=auth-code&state=forged')).toMatchObject({
+      type: 'error',
+      error: { code: 'state_mismatch' }
+    });
+    expect(readOAuthCallback(`?code=auth-code&state=${params.get('state')}`)).toMatchObject({
+      type: 'error',
+      error: { code: 'state_mismatch' }
+    });
+  });
+
+  it('reports a cancelled consent screen', async () => {
+    await startLogin('/career');
+
+    expect(readOAuthCallback('?error=access_denied&state=whatever')).toMatchObject({
+      type: 'error',
+      error: { code: 'access_denied' },
+      returnTo: '/career'
+    });
+  });
+
+  it('never returns to another origin', async () => {
+    const params = await startLogin('//evil.example/phish');
+
+    const callback = readOAuthCallback(`?code=auth-code&state=${params.get('state')}`);
+
+    expect(callback).toMatchObject({ type: 'success', returnTo: '/' });
+  });
+
+  it('ignores a normal page load', () => {
+    expect(readOAuthCallback('?debug=true')).toEqual({ type: 'none' });
+  });
+});
@@ -0,0 +1,103 @@
+// Google OAuth authorization-code flow with `state` (CSRF) and PKCE (RFC 7636)
+
+import { OAuthError, OAuthErrorCode } from './types';
+
+const PENDING_LOGIN_KEY = 'gurukul-oauth-pending';
+const GOOGLE_AUTH_URL = 'https://accounts.google.com/o/oauth2/v2/auth';
+
+// What the login redirect has to remember until Google sends the user back
+interface PendingLogin {
+  state: string;
+  codeVerifier: string;
+  returnTo: string;
+}
+
+export type OAuthCallback =
+  | { type: 'none' }
+  | { type: 'error'; error: OAuthError; returnTo: string }
+  | { type: 'success'; code: string; codeVerifier: string; returnTo: string };
+
+const OAUTH_ERROR_MESSAGES: Record<OAuthErrorCode, string> = {
+  access_denied: 'Google sign-in was cancelled. You need to allow access to continue.',
+  state_mismatch: 'This sign-in attempt has expired or did not start here. Please sign in again.',
+  exchange_failed: 'We could not complete sign-in with Google. Please try again.',
+  provider_error: 'Google reported a problem while signing you in. Please try again.'
+};
+
+export const createOAuthError = (code: OAuthErrorCode): OAuthError => ({
+  code,
+  message: OAUTH_ERROR_MESSAGES[code]
+});
+
+export const base64UrlEncode = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const randomString = (byteLength: number): string =>
+  base64UrlEncode(crypto.getRandomValues(new Uint8Array(byteLength)));
+
+// S256 challenge: base64url(sha256(verifier))
+export const createCodeChallenge = async (codeVerifier: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+  return base64UrlEncode(new Uint8Array(digest));
+};
+
+// Only same-app paths are accepted, so a crafted value cannot redirect off-site
+const sanitizeReturnTo = (returnTo: string | undefined): string =>
+  returnTo && returnTo.startsWith('/') && !returnTo.startsWith('//') ? returnTo : '/';
+
+// Build the Google consent URL and remember state and verifier for the callback in this tab
+export const beginOAuthLogin = async (clientId: string, redirectUri: string, returnTo: string): Promise<string> => {
+  const pending: PendingLogin = {
+    state: randomString(16),
+    codeVerifier: randomString(32), // 43 characters, the minimum RFC 7636 allows
+    returnTo: sanitizeReturnTo(returnTo)
+  };
+  sessionStorage.setItem(PENDING_LOGIN_KEY, JSON.stringify(pending));
+
+  const params = new URLSearchParams({
+    client_id: clientId,
+    redirect_uri: redirectUri,
+    response_type: 'code',
+    scope: 'openid email profile',
+    access_type: 'offline',
+    prompt: 'consent',
+    state: pending.state,
+    code_challenge: await createCodeChallenge(pending.codeVerifier),
+    code_challenge_method: 'S256'
+  });
+  return `${GOOGLE_AUTH_URL}?${params}`;
+};
+
+const takePendingLogin = (): PendingLogin | null => {
+  const stored = sessionStorage.getItem(PENDING_LOGIN_KEY);
+  // Single use: a replayed callback URL finds nothing to match
+  sessionStorage.removeItem(PENDING_LOGIN_KEY);
+  try {
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+// Interpret the query string Google redirected back with. A code is only accepted together with
+// the state this tab generated; anything else is reported as an error instead of being exchanged.
+export const readOAuthCallback = (search: string): OAuthCallback => {
+  const params = new URLSearchParams(search);
+  const code = params.get('code');
+  const error = params.get('error');
+  if (!code && !error) return { type: 'none' };
+
+  const pending = takePendingLogin();
+  const returnTo = sanitizeReturnTo(pending?.returnTo);
+
+  if (error) {
+    const errorCode = error === 'access_denied' ? 'access_denied' : 'provider_error';
+    return { type: 'error', error: createOAuthError(errorCode), returnTo };
+  }
+
+  if (!pending || params.get('state') !== pending.state) {
+    return { type: 'error', error: createOAuthError('state_mismatch'), returnTo };
+  }
+
+  return { type: 'success', code: code!, codeVerifier: pending.codeVerifier, returnTo };
+};
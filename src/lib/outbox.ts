@@ -0,0 +1,39 @@
+import { STORES, withStore, warnOnFailure } from './db';
+
+// A user message that has not been acknowledged by the server yet
+export interface OutboxEntry {
+  messageId: string;
+  chatId: string;
+  agentId: string;
+  content: string;
+  createdAt: number;
+  attempts: number;
+  status: 'pending' | 'sent' | 'failed';
+}
+
+// Persistence is best effort: without IndexedDB the outbox only lives for the session
+const warn = warnOnFailure('Outbox');
+
+export const outbox = {
+  put: (entry: OutboxEntry): Promise<void> =>
+    withStore(STORES.OUTBOX, 'readwrite', store => store.put(entry))
+      .then(() => undefined, warn('write')),
+
+  remove: (messageId: string): Promise<void> =>
+    withStore(STORES.OUTBOX, 'readwrite', store => store.delete(messageId))
+      .then(() => undefined, warn('delete')),
+
+  getAll: (): Promise<OutboxEntry[]> =>
+    withStore<OutboxEntry[]>(STORES.OUTBOX, 'readonly', store => store.getAll())
+      .catch(error => {
+        warn('read')(error);
+        return [];
+      }),
+
+  getByChat: (chatId: string): Promise<OutboxEntry[]> =>
+    withStore<OutboxEntry[]>(STORES.OUTBOX, 'readonly', store => store.index('chatId').getAll(chatId))
+      .catch(error => {
+        warn('read')(error);
+        return [];
+      }),
+};
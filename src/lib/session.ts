@@ -0,0 +1,53 @@
+import { tokenStore } from './authTokens';
+import { clearDatabase } from './db';
+import { socketService } from './socket';
+import { unregisterPushSubscription } from './notifications';
+import { userStore, USER_STORAGE_KEY } from './user';
+import { resetMockBackend } from './mockBackend';
+
+const LOGOUT_CHANNEL = 'gurukul-auth';
+// Runtime cache of API reads written by the service worker (see workbox.runtimeCaching in vite.config.ts)
+const API_CACHE_NAME = 'api-reads';
+
+// Remove everything this browser keeps about the signed-in user
+export const clearLocalSession = async (): Promise<void> => {
+  tokenStore.clear();
+  userStore.clear();
+  resetMockBackend();
+  socketService.disconnect();
+
+  const results = await Promise.allSettled([
+    clearDatabase(),
+    typeof caches !== 'undefined' ? caches.delete(API_CACHE_NAME) : Promise.resolve(false),
+    unregisterPushSubscription()
+  ]);
+  results.forEach(result => {
+    if (result.status === 'rejected') {
+      console.warn('Clearing local session data failed:', result.reason);
+    }
+  });
+};
+
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(LOGOUT_CHANNEL) : null;
+
+// Tell other open tabs to sign out as well
+export const broadcastLogout = (): void => {
+  channel?.postMessage({ type: 'logout' });
+};
+
+// Called when another tab signed out. The `storage` event covers browsers without BroadcastChannel.
+export const onRemoteLogout = (listener: () => void): (() => void) => {
+  const handleMessage = (event: MessageEvent) => {
+    if (event.data?.type === 'logout') listener();
+  };
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === USER_STORAGE_KEY && event.newValue === null) listener();
+  };
+
+  channel?.addEventListener('message', handleMessage);
+  window.addEventListener('storage', handleStorage);
+  return () => {
+    channel?.removeEventListener('message', handleMessage);
+    window.removeEventListener('storage', handleStorage);
+  };
+};
@@ -0,0 +1,226 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { getReconnectDelay, ReconnectOptions, WebSocketService, MessageStatusUpdate } from './socket';
+import { tokenStore } from './authTokens';
+import { WEBSOCKET_CONFIG } from './constants';
+import { FakeWebSocket } from '@/test/fakeWebSocket';
+import { createStorage } from '@/test/storage';
+import type { OutboxEntry } from './outbox';
+
+// Keep the outbox in memory; IndexedDB is not available here
+vi.mock('./outbox', () => {
+  const entries = new Map<string, OutboxEntry>();
+  return {
+    outbox: {
+      put: async (entry: OutboxEntry) => {
+        entries.set(entry.messageId, entry);
+      },
+      remove: async (messageId: string) => {
+        entries.delete(messageId);
+      },
+      getAll: async () => [...entries.values()],
+      getByChat: async (chatId: string) => [...entries.values()].filter(entry => entry.chatId === chatId),
+    }
+  };
+});
+
+const options: ReconnectOptions = { baseDelay: 1000, maxDelay: 30000, jitter: 0.5, maxAttempts: Infinity };
+
+describe('getReconnectDelay', () => {
+  it('doubles the delay on every attempt', () => {
+    const noJitter = () => 0;
+
+    expect([0, 1, 2, 3].map(attempt => getReconnectDelay(attempt, options, noJitter)))
+      .toEqual([1000, 2000, 4000, 8000]);
+  });
+
+  it('caps the delay at maxDelay', () => {
+    expect(getReconnectDelay(10, options, () => 0)).toBe(30000);
+    expect(getReconnectDelay(1000, options, () => 0)).toBe(30000);
+  });
+
+  it('randomizes up to the jitter fraction of the delay', () => {
+    expect(getReconnectDelay(2, options, () => 1)).toBe(2000);
+    expect(getReconnectDelay(2, options, () => 0.5)).toBe(3000);
+  });
+});
+
+describe('WebSocketService', () => {
+  let service: WebSocketService;
+
+  // Connect and let the fake server accept the handshake
+  const connectOpen = async () => {
+    const connected = service.connect('token-1');
+    FakeWebSocket.latest().open();
+    await connected;
+    return FakeWebSocket.latest();
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+    vi.stubGlobal('localStorage', createStorage());
+    tokenStore.setTokens({ token: 'token-1', refreshToken: 'refresh-1' });
+    FakeWebSocket.reset();
+    service = new WebSocketService({ jitter: 0, maxAttempts: 3 });
+  });
+
+  afterEach(() => {
+    service.disconnect();
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('sends frames queued while connecting once the socket opens', async () => {
+    service.connect('token-1');
+    service.joinChat('chat-1');
+    service.sendTyping('chat-1', 'user-1', 'priya', true);
+    expect(FakeWebSocket.latest().sent).toEqual([]);
+
+    FakeWebSocket.latest().open();
+
+    expect(FakeWebSocket.latest().frames().map(frame => frame.type)).toEqual(['chat_update', 'typing']);
+  });
+
+  it('rejects a connect still in progress when disconnected', async () => {
+    const connecting = service.connect('token-1');
+
+    service.disconnect();
+    FakeWebSocket.latest().serverClose(1006);
+
+    await expect(connecting).rejects.toThrow('Disconnected');
+    expect(service.getState()).toBe('idle');
+  });
+
+  it('reconnects with exponential backoff after the connection drops', async () => {
+    const states: string[] = [];
+    service.onStateChange(state => states.push(state));
+    const socket = await connectOpen();
+
+    socket.serverClose(1006);
+    expect(service.getState()).toBe('reconnecting');
+
+    vi.advanceTimersByTime(999);
+    expect(FakeWebSocket.instances).toHaveLength(1);
+    vi.advanceTimersByTime(1);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    expect(FakeWebSocket.latest().url).toContain('token=token-1');
+
+    // The second attempt fails too and waits twice as long
+    FakeWebSocket.latest().serverClose(1006);
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(FakeWebSocket.instances).toHaveLength(3);
+
+    FakeWebSocket.latest().open();
+    expect(states).toEqual(['connecting', 'open', 'reconnecting', 'open']);
+  });
+
+  it.each([1000, 1001, 1012])('reconnects after the server closes cleanly with %i', async code => {
+    const socket = await connectOpen();
+
+    socket.serverClose(code, 'Server restarting');
+    expect(service.getState()).toBe('reconnecting');
+    await vi.advanceTimersByTimeAsync(1000);
+    FakeWebSocket.latest().open();
+
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    expect(service.getState()).toBe('open');
+  });
+
+  it('stays closed after disconnect()', async () => {
+    await connectOpen();
+
+    service.disconnect();
+    await vi.runAllTimersAsync();
+
+    expect(FakeWebSocket.instances).toHaveLength(1);
+    expect(service.getState()).toBe('idle');
+  });
+
+  it('gives up after the maximum number of attempts', async () => {
+    const socket = await connectOpen();
+    socket.serverClose(1006);
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      await vi.runOnlyPendingTimersAsync();
+      FakeWebSocket.latest().serverClose(1006);
+    }
+
+    expect(service.getState()).toBe('failed');
+    expect(FakeWebSocket.instances).toHaveLength(4);
+  });
+
+  it('skips the remaining backoff when retried by hand', async () => {
+    const socket = await connectOpen();
+    socket.serverClose(1006);
+
+    service.retryNow();
+
+    expect(FakeWebSocket.instances).toHaveLength(2);
+  });
+
+  it('flushes the outbox on connect and settles messages the server echoes back', async () => {
+    const statuses: MessageStatusUpdate[] = [];
+    service.on('message_status', update => statuses.push(update));
+
+    service.sendMessage('chat-1', 'Hello', 'priya', 'temp-1');
+    const socket = await connectOpen();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(socket.frames('message')).toHaveLength(1);
+    expect(socket.frames('message')[0].data).toMatchObject({ chatId: 'chat-1', content: 'Hello', messageId: 'temp-1' });
+
+    socket.receive({
+      type: 'message',
+      data: { chatId: 'chat-1', content: 'Hello', agentId: 'priya', messageId: 'temp-1' },
+      timestamp: Date.now()
+    });
+
+    expect(statuses.map(update => update.status)).toEqual(['sent', 'delivered']);
+    // An acknowledged message is not resent
+    await vi.advanceTimersByTimeAsync(WEBSOCKET_CONFIG.ACK_TIMEOUT);
+    expect(socket.frames('message')).toHaveLength(1);
+  });
+
+  it('resends unacknowledged messages and marks them failed after the last attempt', async () => {
+    const statuses: string[] = [];
+    service.on('message_status', update => statuses.push(update.status));
+    const socket = await connectOpen();
+
+    service.sendMessage('chat-1', 'Anyone there?', 'priya', 'temp-2');
+    await vi.advanceTimersByTimeAsync(WEBSOCKET_CONFIG.ACK_TIMEOUT * WEBSOCKET_CONFIG.MAX_SEND_ATTEMPTS);
+
+    expect(socket.frames('message')).toHaveLength(WEBSOCKET_CONFIG.MAX_SEND_ATTEMPTS);
+    expect(statuses).toEqual(['sent', 'failed']);
+  });
+
+  it('resends in-flight messages after reconnecting', async () => {
+    const socket = await connectOpen();
+    service.sendMessage('chat-1', 'Still there?', 'priya', 'temp-3');
+    socket.serverClose(1006);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    FakeWebSocket.latest().open();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(FakeWebSocket.latest().frames('message').map(frame => frame.messageId)).toEqual(['temp-3']);
+  });
+
+  it('refreshes the token and reconnects when the server rejects it', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ token: 'token-2' }), { status: 200, headers: { 'Content-Type': 'application/json' } })
+    ));
+    const socket = await connectOpen();
+
+    socket.serverClose(WEBSOCKET_CONFIG.AUTH_FAILED_CLOSE_CODE, 'Authentication failed');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    expect(FakeWebSocket.latest().url).toContain('token=token-2');
+  });
+});
@@ -1,4 +1,10 @@
-import { Message, Chat } from './types';
+import { Message, Chat, ConnectionState, MessageStatus } from './types';
+import { WEBSOCKET_CONFIG } from './constants';
+import { decodeSocketFrame } from './socketFrames';
+import { outbox, OutboxEntry } from './outbox';
+import { tokenStore, refreshAccessToken, onTokenRefreshed } from './authTokens';
+import { isMockBackendActive } from './mockBackend';
+import { MockSocket } from './mockSocket';
 
 export interface SocketMessage {
   type: 'message' | 'typing' | 'read_receipt' | 'chat_update' | 'error' | 'ping' | 'pong';
@@ -56,117 +62,299 @@ export interface PongData {
   timestamp: number;
 }
 
-class WebSocketService {
+// Emitted for frames that fail validation, instead of passing them to listeners
+export interface UnknownFrame {
+  raw: string;
+  reason: string;
+}
+
+export interface MessageStatusUpdate {
+  messageId: string;
+  chatId: string;
+  status: MessageStatus;
+}
+
+export interface SocketEventMap {
+  message: MessageData;
+  typing: TypingEvent;
+  read_receipt: ReadReceipt;
+  chat_update: ChatUpdate;
+  error: ErrorData;
+  ping: PingData;
+  pong: PongData;
+  disconnect: ErrorData;
+  unknown_frame: UnknownFrame;
+  message_status: MessageStatusUpdate;
+}
+
+export type SocketEvent = keyof SocketEventMap;
+
+type SocketListener<K extends SocketEvent> = (data: SocketEventMap[K]) => void;
+
+export interface ReconnectOptions {
+  baseDelay: number;
+  maxDelay: number;
+  // Fraction of each delay that is randomized so clients don't reconnect in lockstep
+  jitter: number;
+  maxAttempts: number;
+}
+
+// Exponential backoff: baseDelay * 2^attempt, capped at maxDelay, minus up to `jitter` of it
+export const getReconnectDelay = (attempt: number, options: ReconnectOptions, random = Math.random): number => {
+  const delay = Math.min(options.maxDelay, options.baseDelay * 2 ** attempt);
+  return Math.round(delay * (1 - options.jitter * random()));
+};
+
+export class WebSocketService {
   private socket: WebSocket | null = null;
+  private state: ConnectionState = 'idle';
   private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
-  private reconnectDelay = 1000;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectOptions: ReconnectOptions;
+  private connectPromise: Promise<void> | null = null;
+  private rejectConnect: ((error: Error) => void) | null = null;
   private pingInterval: NodeJS.Timeout | null = null;
+  private pongTimeout: ReturnType<typeof setTimeout> | null = null;
+  private latency: number | null = null;
+  private latencyListeners: Set<(latency: number | null) => void> = new Set();
   private messageQueue: SocketMessage[] = [];
-  private isConnecting = false;
-  private eventListeners: Map<string, Set<(data: SocketMessageData) => void>> = new Map();
+  // Unacknowledged user messages, mirrored to IndexedDB so they survive a reload
+  private outgoing: Map<string, OutboxEntry> = new Map();
+  private ackTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private eventListeners: Map<SocketEvent, Set<SocketListener<never>>> = new Map();
+  private stateListeners: Set<(state: ConnectionState) => void> = new Set();
+
+  constructor(options: Partial<ReconnectOptions> = {}) {
+    this.reconnectOptions = {
+      baseDelay: WEBSOCKET_CONFIG.RECONNECT_BASE_DELAY,
+      maxDelay: WEBSOCKET_CONFIG.RECONNECT_MAX_DELAY,
+      jitter: WEBSOCKET_CONFIG.RECONNECT_JITTER,
+      maxAttempts: WEBSOCKET_CONFIG.MAX_RECONNECT_ATTEMPTS,
+      ...options
+    };
 
-  constructor() {
     this.setupPingInterval = this.setupPingInterval.bind(this);
     this.handleMessage = this.handleMessage.bind(this);
     this.handleError = this.handleError.bind(this);
     this.handleClose = this.handleClose.bind(this);
+    this.handleOnline = this.handleOnline.bind(this);
+    this.handleVisibilityChange = this.handleVisibilityChange.bind(this);
+
+    // The server only checks the token during the handshake, so pick up a refreshed one right away
+    onTokenRefreshed(() => this.reauthenticate());
+
+    // Skip the long backoff wait as soon as the network or the tab comes back
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.handleOnline);
+      document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    }
   }
 
   connect(token: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-      if (this.socket?.readyState === WebSocket.OPEN) {
-        resolve();
-        return;
-      }
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      return Promise.resolve();
+    }
 
-      if (this.isConnecting) {
-        reject(new Error('Connection already in progress'));
-        return;
-      }
+    // Share the attempt already in flight instead of failing
+    if (this.connectPromise) {
+      return this.connectPromise;
+    }
 
-      this.isConnecting = true;
-      const wsUrl = import.meta.env.VITE_WS_URL || 'ws://localhost:3002/ws';
-      
-      try {
-        this.socket = new WebSocket(`${wsUrl}?token=${encodeURIComponent(token)}`);
-        
-        this.socket.onopen = () => {
-          console.log('WebSocket connected');
-          this.isConnecting = false;
-          this.reconnectAttempts = 0;
-          this.setupPingInterval();
-          this.flushMessageQueue();
-          resolve();
-        };
-
-        this.socket.onmessage = this.handleMessage;
-        this.socket.onerror = this.handleError;
-        this.socket.onclose = this.handleClose;
-
-        // Set connection timeout
-        setTimeout(() => {
-          if (this.socket?.readyState !== WebSocket.OPEN) {
-            this.isConnecting = false;
-            reject(new Error('Connection timeout'));
-          }
-        }, 10000);
-
-      } catch (error) {
-        this.isConnecting = false;
-        reject(error);
-      }
+    this.clearReconnectTimer();
+    if (this.state !== 'reconnecting') {
+      this.setState('connecting');
+    }
+
+    const wsUrl = import.meta.env.VITE_WS_URL || 'ws://localhost:3002/ws';
+    let socket: WebSocket;
+    try {
+      socket = isMockBackendActive()
+        ? new MockSocket() as unknown as WebSocket
+        : new WebSocket(`${wsUrl}?token=${encodeURIComponent(token)}`);
+    } catch (error) {
+      this.scheduleReconnect();
+      return Promise.reject(error);
+    }
+    this.socket = socket;
+
+    this.connectPromise = new Promise<void>((resolve, reject) => {
+      this.rejectConnect = reject;
+      // Give up on a socket that never opens; closing it schedules the next attempt
+      const connectTimeout = setTimeout(() => {
+        if (socket.readyState !== WebSocket.OPEN) {
+          this.connectPromise = null;
+          reject(new Error('Connection timeout'));
+          socket.close();
+        }
+      }, WEBSOCKET_CONFIG.CONNECT_TIMEOUT);
+
+      socket.onopen = () => {
+        console.log('WebSocket connected');
+        clearTimeout(connectTimeout);
+        this.connectPromise = null;
+        this.reconnectAttempts = 0;
+        this.setState('open');
+        this.setupPingInterval();
+        this.flushMessageQueue();
+        this.flushOutbox();
+        resolve();
+      };
+
+      socket.onmessage = this.handleMessage;
+      socket.onerror = this.handleError;
+      socket.onclose = (event) => {
+        clearTimeout(connectTimeout);
+        // A socket dropped by disconnect() no longer drives the connection state
+        if (this.socket !== socket) return;
+
+        if (this.connectPromise) {
+          this.connectPromise = null;
+          reject(new Error(`Connection closed: ${event.code}`));
+        }
+        this.handleClose(event);
+      };
     });
+
+    return this.connectPromise;
   }
 
   disconnect(): void {
-    if (this.pingInterval) {
-      clearInterval(this.pingInterval);
-      this.pingInterval = null;
+    this.clearReconnectTimer();
+    this.reconnectAttempts = 0;
+    // The abandoned socket's close is ignored, so settle the attempt here for whoever awaits it
+    if (this.connectPromise) {
+      this.rejectConnect?.(new Error('Disconnected'));
     }
+    this.connectPromise = null;
+    this.rejectConnect = null;
+
+    this.stopHeartbeat();
+    this.setLatency(null);
+    this.setState('idle');
 
     if (this.socket) {
       this.socket.close(1000, 'Client disconnect');
       this.socket = null;
     }
 
-    this.eventListeners.clear();
+    // Listeners stay: their owners (ChatProvider, ReplyNotifier) remove them with off()
     this.messageQueue = [];
+    this.clearAckTimers();
+    this.outgoing.clear();
   }
 
-  private setupPingInterval(): void {
-    if (this.pingInterval) {
-      clearInterval(this.pingInterval);
+  // Skip the remaining backoff delay and try to connect immediately
+  retryNow(): void {
+    if (this.state === 'idle' || this.state === 'open' || this.connectPromise) return;
+
+    if (this.state === 'failed') {
+      this.reconnectAttempts = 0;
+      this.setState('reconnecting');
     }
+    this.clearReconnectTimer();
+    this.reconnect();
+  }
+
+  // Replace the current connection with one authenticated by the latest access token
+  private reauthenticate(): void {
+    if (this.state === 'idle') return;
+
+    const socket = this.socket;
+    this.socket = null;
+    this.connectPromise = null;
+    this.stopHeartbeat();
+    this.setLatency(null);
+    this.suspendOutgoing();
+    socket?.close(1000, 'Token refreshed');
+
+    this.clearReconnectTimer();
+    this.reconnectAttempts = 0;
+    this.setState('reconnecting');
+    this.reconnect();
+  }
+
+  private setupPingInterval(): void {
+    this.stopHeartbeat();
 
     this.pingInterval = setInterval(() => {
       if (this.socket?.readyState === WebSocket.OPEN) {
+        const sentAt = Date.now();
         this.send({
           type: 'ping',
-          data: { timestamp: Date.now() },
-          timestamp: Date.now()
+          data: { timestamp: sentAt },
+          timestamp: sentAt
         });
+
+        // A half-open socket never answers; drop it instead of waiting for TCP to notice
+        if (!this.pongTimeout) {
+          this.pongTimeout = setTimeout(() => {
+            this.pongTimeout = null;
+            console.warn(`No pong within ${WEBSOCKET_CONFIG.PONG_TIMEOUT}ms, reconnecting`);
+            this.dropConnection('Heartbeat timeout');
+          }, WEBSOCKET_CONFIG.PONG_TIMEOUT);
+        }
       }
-    }, 30000); // Ping every 30 seconds
+    }, WEBSOCKET_CONFIG.PING_INTERVAL);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.pingInterval) {
+      clearInterval(this.pingInterval);
+      this.pingInterval = null;
+    }
+    if (this.pongTimeout) {
+      clearTimeout(this.pongTimeout);
+      this.pongTimeout = null;
+    }
+  }
+
+  private handlePong(data: PongData): void {
+    if (this.pongTimeout) {
+      clearTimeout(this.pongTimeout);
+      this.pongTimeout = null;
+    }
+    // The server echoes the timestamp of the ping it answers
+    this.setLatency(Math.max(0, Date.now() - data.timestamp));
+  }
+
+  // Abandon the current socket without waiting for its close handshake
+  private dropConnection(reason: string): void {
+    const socket = this.socket;
+    this.socket = null;
+    this.connectPromise = null;
+    this.stopHeartbeat();
+    this.setLatency(null);
+    this.suspendOutgoing();
+    socket?.close(4000, reason);
+
+    this.scheduleReconnect();
+    this.emit('disconnect', { message: `Disconnected: ${reason}` });
   }
 
   private handleMessage(event: MessageEvent): void {
-    try {
-      const message: SocketMessage = JSON.parse(event.data);
-      
-      switch (message.type) {
-        case 'pong':
-          // Handle pong response
-          break;
-        case 'error':
-          console.error('WebSocket error:', message.data);
-          this.emit('error', message.data);
-          break;
-        default:
-          this.emit(message.type, message.data);
-      }
-    } catch (error) {
-      console.error('Failed to parse WebSocket message:', error);
+    const result = decodeSocketFrame(String(event.data));
+    if (result.success === false) {
+      console.warn('Ignoring invalid WebSocket frame:', result.reason);
+      this.emit('unknown_frame', { raw: String(event.data), reason: result.reason });
+      return;
+    }
+
+    const message = result.frame;
+    // The server echoing our messageId is the delivery acknowledgement
+    if (message.type === 'message' && message.data.messageId) {
+      this.acknowledge(message.data.messageId);
+    }
+
+    switch (message.type) {
+      case 'pong':
+        this.handlePong(message.data);
+        break;
+      case 'error':
+        console.error('WebSocket error:', message.data);
+        this.emit('error', message.data);
+        break;
+      default:
+        this.emit(message.type, message.data);
     }
   }
 
@@ -178,30 +366,76 @@ class WebSocketService {
   private handleClose(event: CloseEvent): void {
     console.log('WebSocket disconnected:', event.code, event.reason);
     
-    if (this.pingInterval) {
-      clearInterval(this.pingInterval);
-      this.pingInterval = null;
+    this.stopHeartbeat();
+    this.setLatency(null);
+    this.suspendOutgoing();
+
+    // Closes the client starts itself (disconnect, reauthenticate, dropConnection) detach the socket
+    // first and never get here, so even a clean 1000/1001/1012 is the server going away: reconnect
+    if (event.code === WEBSOCKET_CONFIG.AUTH_FAILED_CLOSE_CODE) {
+      // Expired token: a successful refresh reconnects via reauthenticate(), a failed one signs the user out
+      this.setState('reconnecting');
+      refreshAccessToken().catch(error => {
+        console.error('Token refresh after WebSocket auth failure failed:', error);
+        if (this.state === 'reconnecting') this.setState('failed');
+      });
+    } else {
+      this.scheduleReconnect();
     }
 
-    // Attempt to reconnect if not a clean close
-    if (event.code !== 1000 && this.reconnectAttempts < this.maxReconnectAttempts) {
-      setTimeout(() => {
-        this.reconnectAttempts++;
-        this.reconnect();
-      }, this.reconnectDelay * this.reconnectAttempts);
+    this.emit('disconnect', { message: `Disconnected: ${event.reason}`, code: event.code });
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectAttempts >= this.reconnectOptions.maxAttempts) {
+      console.warn(`Giving up on WebSocket after ${this.reconnectAttempts} reconnect attempts`);
+      this.setState('failed');
+      return;
     }
 
-    this.emit('disconnect', { message: `Disconnected: ${event.reason}`, code: event.code });
+    const delay = getReconnectDelay(this.reconnectAttempts, this.reconnectOptions);
+    console.log(`Reconnecting WebSocket in ${delay}ms (attempt ${this.reconnectAttempts + 1})`);
+
+    this.setState('reconnecting');
+    this.clearReconnectTimer();
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.reconnect();
+    }, delay);
+  }
+
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
   }
 
   private async reconnect(): Promise<void> {
-    const token = localStorage.getItem('authToken');
-    if (token) {
-      try {
-        await this.connect(token);
-      } catch (error) {
-        console.error('Reconnection failed:', error);
-      }
+    const token = tokenStore.getAccessToken();
+    if (!token) {
+      this.setState('failed');
+      return;
+    }
+
+    this.reconnectAttempts++;
+    try {
+      await this.connect(token);
+    } catch (error) {
+      // Cancelled by disconnect(); nothing to retry
+      if (this.state === 'idle') return;
+      // handleClose has already scheduled the next attempt
+      console.error('Reconnection failed:', error);
+    }
+  }
+
+  private handleOnline(): void {
+    this.retryNow();
+  }
+
+  private handleVisibilityChange(): void {
+    if (document.visibilityState === 'visible') {
+      this.retryNow();
     }
   }
 
@@ -224,26 +458,26 @@ class WebSocketService {
   }
 
   // Event handling
-  on(event: string, callback: (data: SocketMessageData) => void): void {
+  on<K extends SocketEvent>(event: K, callback: SocketListener<K>): void {
     if (!this.eventListeners.has(event)) {
       this.eventListeners.set(event, new Set());
     }
     this.eventListeners.get(event)!.add(callback);
   }
 
-  off(event: string, callback: (data: SocketMessageData) => void): void {
+  off<K extends SocketEvent>(event: K, callback: SocketListener<K>): void {
     const listeners = this.eventListeners.get(event);
     if (listeners) {
       listeners.delete(callback);
     }
   }
 
-  private emit(event: string, data: SocketMessageData): void {
+  private emit<K extends SocketEvent>(event: K, data: SocketEventMap[K]): void {
     const listeners = this.eventListeners.get(event);
     if (listeners) {
       listeners.forEach(callback => {
         try {
-          callback(data);
+          (callback as SocketListener<K>)(data);
         } catch (error) {
           console.error('Error in event listener:', error);
         }
@@ -268,16 +502,120 @@ class WebSocketService {
     });
   }
 
-  sendMessage(chatId: string, content: string, agentId: string): void {
-    const messageId = `temp-${Date.now()}-${Math.random()}`;
-    this.send({
+  // Queue a user message in the durable outbox; it is resent until the server echoes its messageId
+  sendMessage(chatId: string, content: string, agentId: string, messageId: string = `temp-${Date.now()}-${Math.random()}`): string {
+    // Re-sending a queued id must not create a second entry; a failed one starts over
+    const queued = this.outgoing.get(messageId);
+    if (queued) {
+      if (queued.status === 'failed') {
+        this.updateOutgoing(messageId, { attempts: 0, status: 'pending' });
+        this.transmit(this.outgoing.get(messageId)!);
+      }
+      return messageId;
+    }
+
+    const entry: OutboxEntry = {
+      messageId,
+      chatId,
+      agentId,
+      content,
+      createdAt: Date.now(),
+      attempts: 0,
+      status: 'pending'
+    };
+    this.outgoing.set(messageId, entry);
+    outbox.put(entry);
+    this.transmit(entry);
+    return messageId;
+  }
+
+  // Forget a queued message, e.g. when the user deletes it or it is resent over REST
+  discardMessage(messageId: string): void {
+    const timer = this.ackTimers.get(messageId);
+    if (timer) {
+      clearTimeout(timer);
+      this.ackTimers.delete(messageId);
+    }
+    this.outgoing.delete(messageId);
+    outbox.remove(messageId);
+  }
+
+  private transmit(entry: OutboxEntry): void {
+    if (this.socket?.readyState !== WebSocket.OPEN || this.ackTimers.has(entry.messageId)) return;
+
+    const { messageId, chatId, content, agentId } = entry;
+    this.socket.send(JSON.stringify({
       type: 'message',
       data: { chatId, content, agentId, messageId },
       timestamp: Date.now(),
       messageId
+    }));
+    this.updateOutgoing(messageId, { attempts: entry.attempts + 1, status: 'sent' });
+
+    this.ackTimers.set(messageId, setTimeout(() => {
+      this.ackTimers.delete(messageId);
+      const current = this.outgoing.get(messageId);
+      if (!current) return;
+
+      if (current.attempts >= WEBSOCKET_CONFIG.MAX_SEND_ATTEMPTS) {
+        console.warn(`Message ${messageId} was not acknowledged after ${current.attempts} attempts`);
+        this.updateOutgoing(messageId, { status: 'failed' });
+      } else {
+        this.transmit(current);
+      }
+    }, WEBSOCKET_CONFIG.ACK_TIMEOUT));
+  }
+
+  private acknowledge(messageId: string): void {
+    const entry = this.outgoing.get(messageId);
+    if (!entry) return;
+
+    this.discardMessage(messageId);
+    this.emit('message_status', { messageId, chatId: entry.chatId, status: 'delivered' });
+  }
+
+  private updateOutgoing(messageId: string, changes: Partial<OutboxEntry>): void {
+    const entry = this.outgoing.get(messageId);
+    if (!entry) return;
+
+    const updated = { ...entry, ...changes };
+    this.outgoing.set(messageId, updated);
+    outbox.put(updated);
+    if (updated.status !== entry.status) {
+      this.emit('message_status', { messageId, chatId: updated.chatId, status: updated.status });
+    }
+  }
+
+  // Resend everything still unacknowledged, including messages persisted by an earlier session
+  private async flushOutbox(): Promise<void> {
+    const persisted = await outbox.getAll();
+    persisted.forEach(entry => {
+      if (!this.outgoing.has(entry.messageId)) {
+        this.outgoing.set(entry.messageId, entry);
+      }
+    });
+
+    [...this.outgoing.values()]
+      .filter(entry => entry.status !== 'failed')
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .forEach(entry => this.transmit(entry));
+  }
+
+  // In-flight messages can't be acknowledged on a dead socket; send them again after reconnecting
+  private suspendOutgoing(): void {
+    this.clearAckTimers();
+    this.outgoing.forEach(entry => {
+      if (entry.status === 'sent') {
+        this.updateOutgoing(entry.messageId, { status: 'pending' });
+      }
     });
   }
 
+  private clearAckTimers(): void {
+    this.ackTimers.forEach(timer => clearTimeout(timer));
+    this.ackTimers.clear();
+  }
+
   sendTyping(chatId: string, userId: string, agentId: string, isTyping: boolean): void {
     this.send({
       type: 'typing',
@@ -294,6 +632,42 @@ class WebSocketService {
     });
   }
 
+  // Connection state
+  onStateChange(callback: (state: ConnectionState) => void): () => void {
+    this.stateListeners.add(callback);
+    return () => {
+      this.stateListeners.delete(callback);
+    };
+  }
+
+  getState(): ConnectionState {
+    return this.state;
+  }
+
+  // Round-trip time of the last ping, in ms; null until a pong arrives
+  onLatencyChange(callback: (latency: number | null) => void): () => void {
+    this.latencyListeners.add(callback);
+    return () => {
+      this.latencyListeners.delete(callback);
+    };
+  }
+
+  getLatency(): number | null {
+    return this.latency;
+  }
+
+  private setLatency(latency: number | null): void {
+    if (this.latency === latency) return;
+    this.latency = latency;
+    this.latencyListeners.forEach(callback => callback(latency));
+  }
+
+  private setState(state: ConnectionState): void {
+    if (this.state === state) return;
+    this.state = state;
+    this.stateListeners.forEach(callback => callback(state));
+  }
+
   // Utility methods
   isConnected(): boolean {
     return this.socket?.readyState === WebSocket.OPEN;
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { decodeSocketFrame } from './socketFrames';
+
+const encode = (frame: unknown) => JSON.stringify(frame);
+
+describe('decodeSocketFrame', () => {
+  it('decodes a typing frame', () => {
+    const result = decodeSocketFrame(encode({
+      type: 'typing',
+      data: { chatId: 'c1', userId: 'ai', agentId: 'priya', isTyping: true },
+      timestamp: 1
+    }));
+
+    expect(result).toEqual({
+      success: true,
+      frame: {
+        type: 'typing',
+        data: { chatId: 'c1', userId: 'ai', agentId: 'priya', isTyping: true },
+        timestamp: 1
+      }
+    });
+  });
+
+  it('revives message timestamps as dates', () => {
+    const result = decodeSocketFrame(encode({
+      type: 'message',
+      data: {
+        chatId: 'c1',
+        content: 'Hello',
+        agentId: 'priya',
+        messageId: 'temp-1',
+        message: {
+          id: 'm1',
+          chatId: 'c1',
+          userId: 'ai',
+          agentId: 'priya',
+          content: 'Hello',
+          role: 'assistant',
+          timestamp: '2024-05-01T10:00:00Z'
+        }
+      },
+      timestamp: 1
+    }));
+
+    expect(result.success).toBe(true);
+    if (result.success === true && result.frame.type === 'message') {
+      expect(result.frame.data.message?.timestamp).toEqual(new Date('2024-05-01T10:00:00Z'));
+    }
+  });
+
+  it('rejects invalid JSON', () => {
+    expect(decodeSocketFrame('{not json')).toEqual({ success: false, reason: 'Frame is not valid JSON' });
+  });
+
+  it('rejects unknown frame types', () => {
+    const result = decodeSocketFrame(encode({ type: 'presence', data: {}, timestamp: 1 }));
+
+    expect(result.success).toBe(false);
+  });
+
+  it('reports the path of a malformed field', () => {
+    const result = decodeSocketFrame(encode({
+      type: 'read_receipt',
+      data: { chatId: 'c1', messageIds: 'm1', userId: 'u1' },
+      timestamp: 1
+    }));
+
+    expect(result.success).toBe(false);
+    if (result.success === false) {
+      expect(result.reason).toContain('data.messageIds');
+    }
+  });
+});
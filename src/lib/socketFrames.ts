@@ -0,0 +1,127 @@
+import { z } from 'zod';
+import type {
+  SocketMessage,
+  SocketMessageData,
+  MessageData,
+  TypingEvent,
+  ReadReceipt,
+  ChatUpdate,
+  ErrorData,
+  PingData,
+  PongData
+} from './socket';
+
+const messageSchema = z.object({
+  id: z.string(),
+  chatId: z.string(),
+  userId: z.string(),
+  agentId: z.string(),
+  content: z.string(),
+  role: z.enum(['user', 'assistant']),
+  timestamp: z.coerce.date(),
+  isTyping: z.boolean().optional(),
+  isMultiMessage: z.boolean().optional(),
+  isFirst: z.boolean().optional(),
+  isAdditional: z.boolean().optional(),
+  messageIndex: z.number().optional(),
+  totalMessages: z.number().optional(),
+  metadata: z.object({
+    messageIndex: z.number().optional(),
+    totalMessages: z.number().optional(),
+    confidence: z.number().optional(),
+    read: z.boolean().optional()
+  }).optional()
+});
+
+const messageDataSchema = z.object({
+  chatId: z.string(),
+  content: z.string(),
+  agentId: z.string(),
+  messageId: z.string().optional(),
+  message: messageSchema.optional()
+});
+
+const typingEventSchema = z.object({
+  chatId: z.string(),
+  userId: z.string(),
+  agentId: z.string(),
+  isTyping: z.boolean()
+});
+
+const readReceiptSchema = z.object({
+  chatId: z.string(),
+  messageIds: z.array(z.string()),
+  userId: z.string()
+});
+
+const chatUpdateSchema = z.object({
+  chatId: z.string(),
+  updates: z.object({
+    title: z.string(),
+    updatedAt: z.coerce.date(),
+    messageCount: z.number(),
+    lastMessage: z.string()
+  }).partial().optional(),
+  action: z.enum(['join', 'leave']).optional()
+});
+
+const errorDataSchema = z.object({
+  message: z.string(),
+  code: z.number().optional()
+});
+
+const pingDataSchema = z.object({ timestamp: z.number() });
+const pongDataSchema = z.object({ timestamp: z.number() });
+
+const frame = <T extends SocketMessage['type'], D extends z.ZodTypeAny>(type: T, data: D) => z.object({
+  type: z.literal(type),
+  data,
+  timestamp: z.number(),
+  messageId: z.string().optional()
+});
+
+const socketFrameSchema = z.discriminatedUnion('type', [
+  frame('message', messageDataSchema),
+  frame('typing', typingEventSchema),
+  frame('read_receipt', readReceiptSchema),
+  frame('chat_update', chatUpdateSchema),
+  frame('error', errorDataSchema),
+  frame('ping', pingDataSchema),
+  frame('pong', pongDataSchema)
+]);
+
+type FrameOf<T extends SocketMessage['type'], D extends SocketMessageData> = Omit<SocketMessage, 'type' | 'data'> & {
+  type: T;
+  data: D;
+};
+
+// The socket interfaces stay the source of truth; zod only infers optional fields without strictNullChecks
+export type SocketFrame =
+  | FrameOf<'message', MessageData>
+  | FrameOf<'typing', TypingEvent>
+  | FrameOf<'read_receipt', ReadReceipt>
+  | FrameOf<'chat_update', ChatUpdate>
+  | FrameOf<'error', ErrorData>
+  | FrameOf<'ping', PingData>
+  | FrameOf<'pong', PongData>;
+
+export type DecodeResult =
+  | { success: true; frame: SocketFrame }
+  | { success: false; reason: string };
+
+// Parse and validate a raw WebSocket payload without throwing
+export const decodeSocketFrame = (raw: string): DecodeResult => {
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    return { success: false, reason: 'Frame is not valid JSON' };
+  }
+
+  const result = socketFrameSchema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    return { success: false, reason: `${issue.path.join('.') || 'frame'}: ${issue.message}` };
+  }
+  return { success: true, frame: result.data as SocketFrame };
+};
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { createSSEParser, SSEEvent } from './sse';
+
+const collect = () => {
+  const events: SSEEvent[] = [];
+  const parser = createSSEParser(event => events.push(event));
+  return { events, parser };
+};
+
+describe('createSSEParser', () => {
+  it('dispatches an event on the blank line', () => {
+    const { events, parser } = collect();
+
+    parser.feed('data: {"type":"delta"}\n');
+    expect(events).toHaveLength(0);
+
+    parser.feed('\n');
+    expect(events).toEqual([{ event: 'message', data: '{"type":"delta"}', id: undefined }]);
+  });
+
+  it('buffers a JSON line split across chunks', () => {
+    const { events, parser } = collect();
+
+    parser.feed('data: {"type":"delta","data":{"con');
+    parser.feed('tent":"Hel');
+    parser.feed('lo"}}\n\n');
+
+    expect(events).toHaveLength(1);
+    expect(JSON.parse(events[0].data)).toEqual({ type: 'delta', data: { content: 'Hello' } });
+  });
+
+  it('handles a \\r\\n line ending split between chunks', () => {
+    const { events, parser } = collect();
+
+    parser.feed('data: one\r');
+    parser.feed('\ndata: two\r\n\r');
+    parser.feed('\n');
+
+    expect(events).toEqual([{ event: 'message', data: 'one\ntwo', id: undefined }]);
+  });
+
+  it('accepts bare \\r line endings', () => {
+    const { events, parser } = collect();
+
+    parser.feed('data: a\r\rdata: b\r\r\n');
+
+    expect(events.map(event => event.data)).toEqual(['a', 'b']);
+  });
+
+  it('joins multi-line data with newlines', () => {
+    const { events, parser } = collect();
+
+    parser.feed('data: first\ndata:second\ndata:  indented\n\n');
+
+    expect(events[0].data).toBe('first\nsecond\n indented');
+  });
+
+  it('reads event names and resets them after each dispatch', () => {
+    const { events, parser } = collect();
+
+    parser.feed('event: delta\ndata: x\n\ndata: y\n\n');
+
+    expect(events.map(event => event.event)).toEqual(['delta', 'message']);
+  });
+
+  it('tracks the last event id across events', () => {
+    const { events, parser } = collect();
+
+    parser.feed('id: 41\ndata: a\n\ndata: b\n\n');
+
+    expect(events.map(event => event.id)).toEqual(['41', '41']);
+    expect(parser.lastEventId).toBe('41');
+
+    parser.feed('id: 42\n\n');
+    expect(parser.lastEventId).toBe('42');
+    expect(events).toHaveLength(2);
+  });
+
+  it('only accepts numeric retry values', () => {
+    const { parser } = collect();
+
+    parser.feed('retry: 2500\n\n');
+    expect(parser.retry).toBe(2500);
+
+    parser.feed('retry: soon\n\n');
+    expect(parser.retry).toBe(2500);
+  });
+
+  it('ignores comments, unknown fields and events without data', () => {
+    const { events, parser } = collect();
+
+    parser.feed(': keep-alive\n\nfoo: bar\n\nevent: ping\n\n');
+
+    expect(events).toHaveLength(0);
+  });
+
+  it('strips a leading byte order mark', () => {
+    const { events, parser } = collect();
+
+    parser.feed('\uFEFFdata: hi\n\n');
+
+    expect(events[0].data).toBe('hi');
+  });
+
+  it('drops a partial event on reset but keeps the last event id', () => {
+    const { events, parser } = collect();
+
+    parser.feed('id: 7\ndata: done\n\ndata: {"partial"');
+    parser.reset();
+    parser.feed('data: fresh\n\n');
+
+    expect(events.map(event => event.data)).toEqual(['done', 'fresh']);
+    expect(parser.lastEventId).toBe('7');
+  });
+});
@@ -0,0 +1,101 @@
+// Incremental Server-Sent Events parser (https://html.spec.whatwg.org/multipage/server-sent-events.html)
+
+export interface SSEEvent {
+  event: string;
+  data: string;
+  id?: string;
+}
+
+export interface SSEParser {
+  // Feed decoded text; complete events are dispatched as soon as their blank line arrives
+  feed: (chunk: string) => void;
+  // Discard any partially received event, e.g. when the connection drops
+  reset: () => void;
+  readonly lastEventId: string | undefined;
+  readonly retry: number | undefined;
+}
+
+export const createSSEParser = (onEvent: (event: SSEEvent) => void): SSEParser => {
+  let buffer = '';
+  let isFirstChunk = true;
+  let eventType = '';
+  let dataLines: string[] = [];
+  let lastEventId: string | undefined;
+  let retry: number | undefined;
+
+  const dispatch = () => {
+    if (dataLines.length > 0) {
+      onEvent({ event: eventType || 'message', data: dataLines.join('\n'), id: lastEventId });
+    }
+    eventType = '';
+    dataLines = [];
+  };
+
+  const processLine = (line: string) => {
+    if (line === '') {
+      dispatch();
+      return;
+    }
+    // Comment lines are used as keep-alives
+    if (line.startsWith(':')) return;
+
+    const colonIndex = line.indexOf(':');
+    const field = colonIndex === -1 ? line : line.slice(0, colonIndex);
+    let value = colonIndex === -1 ? '' : line.slice(colonIndex + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'event':
+        eventType = value;
+        break;
+      case 'data':
+        dataLines.push(value);
+        break;
+      case 'id':
+        if (!value.includes('\0')) lastEventId = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) retry = parseInt(value, 10);
+        break;
+    }
+  };
+
+  const feed = (chunk: string) => {
+    buffer += chunk;
+    if (isFirstChunk && buffer.length > 0) {
+      if (buffer.charCodeAt(0) === 0xfeff) buffer = buffer.slice(1);
+      isFirstChunk = false;
+    }
+
+    let start = 0;
+    for (let i = 0; i < buffer.length; i++) {
+      const char = buffer[i];
+      if (char !== '\n' && char !== '\r') continue;
+
+      // A trailing \r may be the first half of a \r\n split across chunks
+      if (char === '\r' && i === buffer.length - 1) break;
+
+      processLine(buffer.slice(start, i));
+      if (char === '\r' && buffer[i + 1] === '\n') i++;
+      start = i + 1;
+    }
+    buffer = buffer.slice(start);
+  };
+
+  const reset = () => {
+    buffer = '';
+    eventType = '';
+    dataLines = [];
+  };
+
+  return {
+    feed,
+    reset,
+    get lastEventId() {
+      return lastEventId;
+    },
+    get retry() {
+      return retry;
+    }
+  };
+};
@@ -7,6 +7,9 @@ export interface User {
   lastActive: Date;
 }
 
+// Delivery state of a user message: queued → written to the socket → acknowledged by the server
+export type MessageStatus = 'pending' | 'sent' | 'delivered' | 'failed';
+
 export interface Message {
   id: string;
   chatId: string;
@@ -16,6 +19,7 @@ export interface Message {
   role: 'user' | 'assistant';
   timestamp: Date;
   isTyping?: boolean;
+  status?: MessageStatus;
   // Multi-message support
   isMultiMessage?: boolean;
   isFirst?: boolean;
@@ -30,6 +34,28 @@ export interface Message {
   };
 }
 
+// Every reply shape from the backend is normalized into this
+export interface AssistantReply {
+  messages: Message[];
+  isMultiMessage: boolean;
+  totalMessages: number;
+}
+
+// Payload of a streaming event; for `delta` events `content` is only the newly generated fragment
+export interface StreamMessageData {
+  id?: string;
+  content: string;
+  messageIndex?: number;
+  totalMessages?: number;
+  isFirst?: boolean;
+  isAdditional?: boolean;
+}
+
+export type StreamEvent =
+  | { type: 'connected' }
+  | { type: 'delta'; data: StreamMessageData }
+  | { type: 'message'; data: StreamMessageData };
+
 export interface Chat {
   id: string;
   userId: string;
@@ -39,6 +65,8 @@ export interface Chat {
   updatedAt: Date;
   messageCount: number;
   lastMessage?: string;
+  // Renamed while offline; the local title wins until the server has accepted it
+  titleSyncPending?: boolean;
 }
 
 export interface ChatSession {
@@ -47,6 +75,12 @@ export interface ChatSession {
   isLoading: boolean;
   hasNewMessages: boolean;
   pollCount: number;
+  // Pagination state from getMessages
+  hasMore?: boolean;
+  total?: number;
+  page?: number;
+  // Set once loadOlderMessages paged in earlier history; it is not trimmed while set
+  olderPagesLoaded?: boolean;
 }
 
 export interface ApiResponse<T> {
@@ -57,25 +91,50 @@ export interface ApiResponse<T> {
   hasMore?: boolean;
 }
 
+export type OAuthErrorCode = 'access_denied' | 'state_mismatch' | 'exchange_failed' | 'provider_error';
+
+export interface OAuthError {
+  code: OAuthErrorCode;
+  message: string;
+}
+
 export interface AuthContextType {
   user: User | null;
   isLoading: boolean;
   error: string | null;
+  // Set when Google sign-in was cancelled, tampered with or could not be completed
+  oauthError: OAuthError | null;
+  dismissOAuthError: () => void;
   login: () => Promise<void>;
+  loginAsGuest: () => Promise<void>;
   logout: () => Promise<void>;
 }
 
+// Lifecycle of the real-time connection: idle → connecting → open → reconnecting → failed
+export type ConnectionState = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'failed';
+
 export interface ChatContextType {
   currentChat: ChatSession | null;
   chats: Chat[];
   sendMessage: (content: string, agentId: string, chatId?: string) => Promise<void>;
+  retryMessage: (messageId: string) => Promise<void>;
+  deleteFailedMessage: (messageId: string) => void;
   loadChat: (chatId: string) => Promise<void>;
+  resumeLatestChat: (agentId: string) => Promise<string | null>;
+  loadOlderMessages: () => Promise<void>;
   createNewChat: (agentId: string) => Promise<string>;
   updateChatTitle: (chatId: string, title: string) => Promise<void>;
   deleteChat: (chatId: string) => Promise<void>;
   isTyping: boolean;
   isLoading: boolean;
+  isLoadingOlder: boolean;
+  isStreaming: boolean;
+  stopGeneration: () => void;
   error: string | null;
   loadChats: () => Promise<void>;
   isConnected: boolean;
+  connectionState: ConnectionState;
+  latency: number | null;
+  retryConnection: () => void;
+  isDemoMode: boolean;
 }
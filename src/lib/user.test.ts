@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { parseUser } from './user';
+
+const storedUser = {
+  id: 'user-1',
+  email: 'asha@example.com',
+  name: 'Asha',
+  picture: 'https://example.com/asha.png',
+  createdAt: '2024-05-01T10:00:00.000Z',
+  lastActive: '2024-05-02T08:30:00.000Z'
+};
+
+describe('parseUser', () => {
+  it('revives the date fields of a user read back from JSON', () => {
+    const user = parseUser(JSON.parse(JSON.stringify(storedUser)));
+
+    expect(user?.createdAt).toBeInstanceOf(Date);
+    expect(user?.createdAt.toISOString()).toBe('2024-05-01T10:00:00.000Z');
+    expect(user?.lastActive.getTime()).toBe(Date.parse('2024-05-02T08:30:00.000Z'));
+  });
+
+  it('accepts numeric ids and a missing picture', () => {
+    const user = parseUser({ ...storedUser, id: 42, picture: null });
+
+    expect(user?.id).toBe('42');
+    expect(user?.picture).toBeUndefined();
+  });
+
+  it('rejects objects that are not a complete user', () => {
+    expect(parseUser({ ...storedUser, email: undefined })).toBeNull();
+    expect(parseUser({ ...storedUser, id: '' })).toBeNull();
+    expect(parseUser({ ...storedUser, createdAt: 'yesterday' })).toBeNull();
+    expect(parseUser('user-1')).toBeNull();
+    expect(parseUser(null)).toBeNull();
+  });
+});
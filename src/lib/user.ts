@@ -0,0 +1,56 @@
+import { z } from 'zod';
+import { User } from './types';
+
+export const USER_STORAGE_KEY = 'gurukul-user';
+
+// The backend answered a user lookup with something that is not a usable user
+export class MalformedUserError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MalformedUserError';
+  }
+}
+
+// JSON has no Date type: timestamps come back as ISO strings (or epoch ms) and are revived here
+const dateSchema = z.union([z.string(), z.number(), z.date()])
+  .pipe(z.coerce.date())
+  .refine(date => !Number.isNaN(date.getTime()), 'Invalid date');
+
+const userSchema = z.object({
+  id: z.union([z.string(), z.number()]).transform(String).pipe(z.string().min(1)),
+  email: z.string().email(),
+  name: z.string(),
+  picture: z.string().nullish().transform(picture => picture ?? undefined),
+  createdAt: dateSchema,
+  lastActive: dateSchema,
+});
+
+// Validate a user object from the backend or storage; null when it is not a usable user
+export const parseUser = (raw: unknown): User | null => {
+  const result = userSchema.safeParse(raw);
+  if (result.success === false) {
+    console.warn('Ignoring invalid user data:', result.error.issues);
+    return null;
+  }
+  return result.data as User;
+};
+
+export const userStore = {
+  get: (): User | null => {
+    const stored = localStorage.getItem(USER_STORAGE_KEY);
+    if (!stored) return null;
+    try {
+      return parseUser(JSON.parse(stored));
+    } catch {
+      return null;
+    }
+  },
+
+  set: (user: User): void => {
+    localStorage.setItem(USER_STORAGE_KEY, JSON.stringify(user));
+  },
+
+  clear: (): void => {
+    localStorage.removeItem(USER_STORAGE_KEY);
+  },
+};
@@ -0,0 +1,64 @@
+// Stand-in for the browser WebSocket that tests drive by hand: open(), receive() and
+// serverClose() play the server's part, `sent` records what the client wrote.
+// Install with vi.stubGlobal('WebSocket', FakeWebSocket).
+
+export class FakeWebSocket {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSING = 2;
+  static readonly CLOSED = 3;
+
+  static instances: FakeWebSocket[] = [];
+
+  static latest(): FakeWebSocket {
+    return FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+  }
+
+  static reset(): void {
+    FakeWebSocket.instances = [];
+  }
+
+  readyState = FakeWebSocket.CONNECTING;
+  sent: string[] = [];
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+
+  constructor(public url: string) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string): void {
+    if (this.readyState !== FakeWebSocket.OPEN) {
+      throw new Error('WebSocket is not open');
+    }
+    this.sent.push(data);
+  }
+
+  // Like a browser, the close event of a client-initiated close arrives asynchronously
+  close(code = 1000, reason = ''): void {
+    if (this.readyState === FakeWebSocket.CLOSED) return;
+    this.readyState = FakeWebSocket.CLOSED;
+    queueMicrotask(() => this.onclose?.({ code, reason, wasClean: true } as CloseEvent));
+  }
+
+  open(): void {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.(new Event('open'));
+  }
+
+  receive(frame: unknown): void {
+    this.onmessage?.({ data: JSON.stringify(frame) } as MessageEvent);
+  }
+
+  serverClose(code: number, reason = ''): void {
+    this.readyState = FakeWebSocket.CLOSED;
+    this.onclose?.({ code, reason, wasClean: code === 1000 } as CloseEvent);
+  }
+
+  // Parsed frames written by the client, optionally only those of one type
+  frames(type?: string): { type: string; data: Record<string, unknown>; messageId?: string }[] {
+    return this.sent.map(raw => JSON.parse(raw)).filter(frame => !type || frame.type === type);
+  }
+}
@@ -0,0 +1,10 @@
+// In-memory Storage for tests running without a DOM: vi.stubGlobal('localStorage', createStorage())
+export const createStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+    removeItem: (key: string) => items.delete(key),
+    clear: () => items.clear(),
+  };
+};
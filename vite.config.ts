@@ -1,11 +1,56 @@
-import { defineConfig } from "vite";
+import { defineConfig, loadEnv, Plugin } from "vite";
+import { configDefaults } from "vitest/config";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
+import { VitePWA } from "vite-plugin-pwa";
+import { AI_AGENTS } from "./src/lib/agents";
+
+const APP_THEME_COLOR = '#FF6B35';
+
+const agents = Object.values(AI_AGENTS);
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Square icon with the agent's emoji on its brand colour; maskable-safe since the emoji sits well inside the safe zone
+const agentIconSvg = (icon: string, color: string) =>
+  `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 512 512">` +
+  `<rect width="512" height="512" fill="${color}"/>` +
+  `<text x="50%" y="50%" dominant-baseline="central" text-anchor="middle" font-size="256">${icon}</text>` +
+  `</svg>`;
+
+// Serves and emits /icons/<agent>.svg for the manifest shortcuts
+const agentIcons = (): Plugin => {
+  const icons = new Map(agents.map(agent => [`icons/${agent.id}.svg`, agentIconSvg(agent.icon, agent.primaryColor)]));
+
+  return {
+    name: 'agent-icons',
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        const svg = req.url && icons.get(req.url.replace(/^\//, ''));
+        if (!svg) return next();
+        res.setHeader('Content-Type', 'image/svg+xml');
+        res.end(svg);
+      });
+    },
+    generateBundle() {
+      icons.forEach((source, fileName) => this.emitFile({ type: 'asset', fileName, source }));
+    },
+  };
+};
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, process.cwd());
   const backendUrl = process.env.VITE_BACKEND_URL || 'http://localhost:3000';
+  const apiBaseUrl = env.VITE_API_BASE_URL || 'http://localhost:3002';
+
+  // Workbox matches against the full URL, so a same-origin base such as /api needs an origin prefix.
+  // Only chat and message reads are cached; polling and streaming must always hit the network.
+  const apiBasePattern = apiBaseUrl.startsWith('/')
+    ? `https?://[^/]+${escapeRegExp(apiBaseUrl)}`
+    : escapeRegExp(apiBaseUrl);
+  const apiReadPattern = new RegExp(`^${apiBasePattern}/chats(?!.*/(poll|stream))`);
 
   return {
     server: {
@@ -24,11 +69,67 @@ export default defineConfig(({ mode }) => {
       react(),
       mode === 'development' &&
       componentTagger(),
+      agentIcons(),
+      VitePWA({
+        // The app asks before activating a new version (see PwaUpdatePrompt)
+        registerType: 'prompt',
+        injectRegister: false,
+        includeAssets: ['favicon.ico', 'icons/app-icon.svg'],
+        manifest: {
+          name: 'Gurukul AI - AI for India',
+          short_name: 'Gurukul AI',
+          description: 'Your personal AI agents for therapy, diet, career guidance, and more',
+          start_url: '/',
+          display: 'standalone',
+          background_color: '#ffffff',
+          theme_color: APP_THEME_COLOR,
+          orientation: 'portrait-primary',
+          categories: ['health', 'lifestyle', 'productivity', 'education'],
+          lang: 'en-US',
+          dir: 'ltr',
+          icons: [
+            { src: '/icons/app-icon.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'any' },
+            { src: '/icons/app-icon.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'maskable' },
+          ],
+          shortcuts: agents.map(agent => ({
+            name: agent.name,
+            short_name: agent.shortName,
+            description: agent.description,
+            url: agent.route,
+            icons: [{ src: `/icons/${agent.id}.svg`, sizes: 'any', type: 'image/svg+xml' }],
+          })),
+        },
+        workbox: {
+          globPatterns: ['**/*.{js,css,html,ico,png,svg,webmanifest}'],
+          // Deep links such as /priya/<chatId> load the cached shell while offline
+          navigateFallback: '/index.html',
+          navigateFallbackDenylist: [/^\/api\//],
+          cleanupOutdatedCaches: true,
+          importScripts: ['/push-sw.js'],
+          runtimeCaching: [
+            {
+              urlPattern: apiReadPattern,
+              method: 'GET',
+              handler: 'NetworkFirst',
+              options: {
+                cacheName: 'api-reads',
+                networkTimeoutSeconds: 5,
+                expiration: { maxEntries: 100, maxAgeSeconds: 24 * 60 * 60 },
+                cacheableResponse: { statuses: [200] },
+              },
+            },
+          ],
+        },
+      }),
     ].filter(Boolean),
     resolve: {
       alias: {
         "@": path.resolve(__dirname, "./src"),
       },
     },
+    test: {
+      // Playwright runs the browser specs (npm run test:e2e)
+      exclude: [...configDefaults.exclude, "e2e/**"],
+    },
   };
 });